@@ -0,0 +1,21 @@
+// 予定のお知らせをタップしたときの処理（vite.config.ts の workbox.importScripts で読み込む）
+// 開いているアプリがあればその画面を切り替え、なければ新しく開く
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data && event.notification.data.url;
+  if (!url) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // この Service Worker が管理していない画面は navigate できないので、管理している画面を選ぶ
+      const client = clients.find(
+        (c) => 'navigate' in c && c.url.startsWith(self.registration.scope)
+      );
+      if (!client) return self.clients.openWindow(url);
+      return client
+        .navigate(url)
+        .then((navigated) => (navigated || client).focus())
+        .catch(() => self.clients.openWindow(url));
+    })
+  );
+});
@@ -0,0 +1,157 @@
+// ここメモ 同期サーバーの実装例（依存パッケージなし）
+//   npm run sync-server
+// 環境変数:
+//   PORT            待ち受けるポート（既定 8787）
+//   SYNC_TOKEN      合言葉。設定すると Authorization: Bearer <合言葉> が必要になる
+//   SYNC_DATA_FILE  データを保存するファイル（既定 sync-data.json）
+import { createServer } from 'http';
+import { readFileSync, writeFileSync, renameSync, existsSync } from 'fs';
+import { resolve } from 'path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// records: "type:id" → { type, id, version, seq, updatedAt, deleted, record }
+// seq は変更のたびに増える通し番号。端末は前回受け取った seq 以降の変更を取りに来る
+function loadData() {
+  if (!existsSync(DATA_FILE)) return { seq: 0, records: {} };
+  return JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+}
+
+// 書き込み途中で止まっても壊れないよう、一時ファイルに書いてから置き換える
+function saveData() {
+  const tempFile = `${DATA_FILE}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(data));
+  renameSync(tempFile, DATA_FILE);
+}
+
+const data = loadData();
+
+function getChanges(since) {
+  const changes = Object.values(data.records)
+    .filter((entry) => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(({ type, id, version, deleted, record }) =>
+      deleted ? { type, id, version, deleted: true } : { type, id, version, record }
+    );
+  return { seq: data.seq, changes };
+}
+
+function assertValidChange(change) {
+  const { type, id, deleted, record } = change || {};
+  if ((type !== 'place' && type !== 'tab') || typeof id !== 'string') {
+    throw new Error('invalid change');
+  }
+  if (!deleted && (typeof record !== 'object' || record === null)) {
+    throw new Error('invalid record');
+  }
+}
+
+// 受け付ける条件:
+//   - 削除（削除済みの印として残す）
+//   - 端末が知っている版がサーバーの版と同じ
+//   - 版が違っても、送られてきた内容の更新日時の方が新しい
+// それ以外は競合として、サーバーの内容を返す
+function applyChange(change) {
+  const { type, id, baseVersion = 0, deleted = false, record } = change;
+  const key = `${type}:${id}`;
+  const existing = data.records[key];
+  const incomingUpdatedAt = deleted ? new Date().toISOString() : record.updatedAt || '';
+  const accepted =
+    !existing ||
+    deleted ||
+    existing.version === baseVersion ||
+    incomingUpdatedAt > (existing.updatedAt || '');
+
+  if (!accepted) {
+    return existing.deleted
+      ? { type, id, status: 'conflict', version: existing.version, deleted: true }
+      : { type, id, status: 'conflict', version: existing.version, record: existing.record };
+  }
+
+  const version = (existing?.version || 0) + 1;
+  data.seq += 1;
+  data.records[key] = {
+    type,
+    id,
+    version,
+    seq: data.seq,
+    updatedAt: incomingUpdatedAt,
+    deleted,
+    record: deleted ? undefined : { ...record, version },
+  };
+  return { type, id, status: 'accepted', version };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  // ブラウザから直接呼べるようにする
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(res, 401, { error: 'unauthorized' });
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname !== '/changes') {
+    send(res, 404, { error: 'not found' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      send(res, 200, getChanges(Number(url.searchParams.get('since')) || 0));
+      return;
+    }
+    if (req.method === 'POST') {
+      const { changes } = JSON.parse(await readBody(req));
+      if (!Array.isArray(changes)) throw new Error('invalid changes');
+      // 途中で失敗して一部だけ反映されないよう、先にすべて確かめる
+      changes.forEach(assertValidChange);
+      const results = changes.map(applyChange);
+      saveData();
+      send(res, 200, { results });
+      return;
+    }
+    send(res, 405, { error: 'method not allowed' });
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : 'bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}/changes`);
+  console.log(`Data file: ${DATA_FILE}${TOKEN ? ' (token required)' : ''}`);
+});
@@ -6,6 +6,14 @@ import { CalendarPage } from './pages/CalendarPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { TabsPage } from './pages/TabsPage';
 import { SearchPage } from './pages/SearchPage';
+import { ExportPage } from './pages/ExportPage';
+import { ImportPage } from './pages/ImportPage';
+import { TrashPage } from './pages/TrashPage';
+import { HealthPage } from './pages/HealthPage';
+import { SharedPlacePage } from './pages/SharedPlacePage';
+import { ScanPage } from './pages/ScanPage';
+import { TransferPage } from './pages/TransferPage';
+import { PlannedVisitPage } from './pages/PlannedVisitPage';
 
 function App() {
   const basename = import.meta.env.BASE_URL;
@@ -20,6 +28,14 @@ function App() {
           <Route path="/calendar" element={<CalendarPage />} />
           <Route path="/settings" element={<SettingsPage />} />
           <Route path="/settings/tabs" element={<TabsPage />} />
+          <Route path="/settings/export" element={<ExportPage />} />
+          <Route path="/settings/import" element={<ImportPage />} />
+          <Route path="/settings/trash" element={<TrashPage />} />
+          <Route path="/settings/health" element={<HealthPage />} />
+          <Route path="/settings/transfer" element={<TransferPage />} />
+          <Route path="/import" element={<SharedPlacePage />} />
+          <Route path="/scan" element={<ScanPage />} />
+          <Route path="/visit/:id" element={<PlannedVisitPage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </BrowserRouter>
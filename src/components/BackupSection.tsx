@@ -0,0 +1,303 @@
+import { useState, useRef, useCallback, type ChangeEvent } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { BackupFile } from '../lib/backup';
+import {
+  downloadBackup,
+  parseBackup,
+  isEncryptedBackup,
+  decryptBackup,
+  summarizeBackup,
+  restoreBackup,
+} from '../lib/backup';
+import type { ImportMode } from '../lib/storage';
+import { Button, Card, Input, ConfirmDialog } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+export function BackupSection() {
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [showReplaceDialog, setShowReplaceDialog] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // パスワードによる保護
+  const [usePassphrase, setUsePassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [passphraseError, setPassphraseError] = useState<string>();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // 復元するファイルがパスワード付きだったとき
+  const [encryptedText, setEncryptedText] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const handleExport = useCallback(async () => {
+    if (usePassphrase) {
+      if (passphrase.length < 8) {
+        setPassphraseError('パスワードは8文字以上にしてください');
+        return;
+      }
+      if (passphrase !== passphraseConfirm) {
+        setPassphraseError('確認用のパスワードが一致しません');
+        return;
+      }
+    }
+    setPassphraseError(undefined);
+
+    setIsExporting(true);
+    try {
+      await downloadBackup(usePassphrase ? passphrase : undefined);
+      showToast(usePassphrase ? 'パスワード付きでバックアップを保存しました' : 'バックアップを保存しました');
+      setPassphrase('');
+      setPassphraseConfirm('');
+    } catch (error) {
+      console.error('Backup export error:', error);
+      showToast(
+        error instanceof Error ? error.message : 'バックアップの保存に失敗しました',
+        'error'
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }, [usePassphrase, passphrase, passphraseConfirm, showToast]);
+
+  const handleFileSelected = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // 同じファイルを選び直せるようにリセット
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+        const text = await file.text();
+        if (isEncryptedBackup(text)) {
+          setPendingBackup(null);
+          setRestorePassphrase('');
+          setEncryptedText(text);
+          return;
+        }
+        setEncryptedText(null);
+        setPendingBackup(parseBackup(text));
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : 'バックアップファイルを読み込めませんでした',
+          'error'
+        );
+      }
+    },
+    [showToast]
+  );
+
+  const handleDecrypt = useCallback(async () => {
+    if (!encryptedText || !restorePassphrase) return;
+
+    setIsDecrypting(true);
+    try {
+      setPendingBackup(await decryptBackup(encryptedText, restorePassphrase));
+      setEncryptedText(null);
+      setRestorePassphrase('');
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : 'バックアップファイルを読み込めませんでした',
+        'error'
+      );
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [encryptedText, restorePassphrase, showToast]);
+
+  const handleRestore = useCallback(
+    async (mode: ImportMode) => {
+      if (!pendingBackup) return;
+
+      setShowReplaceDialog(false);
+      setIsRestoring(true);
+      try {
+        await restoreBackup(pendingBackup, mode);
+        setPendingBackup(null);
+        showToast('バックアップから復元しました');
+      } catch (error) {
+        console.error('Backup restore error:', error);
+        showToast('復元に失敗しました', 'error');
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [pendingBackup, showToast]
+  );
+
+  const summary = pendingBackup ? summarizeBackup(pendingBackup) : null;
+
+  return (
+    <section>
+      <h2 className="text-xl font-bold text-text mb-4">データのバックアップ</h2>
+      <Card className="flex flex-col gap-3">
+        <p className="text-base text-text-secondary leading-relaxed">
+          登録した場所・カテゴリ・設定をファイルに保存できます。
+          機種変更のときは、新しいスマホでこのファイルから復元してください。
+        </p>
+        <label className="flex items-center gap-3 text-base text-text">
+          <input
+            type="checkbox"
+            checked={usePassphrase}
+            onChange={(e) => {
+              setUsePassphrase(e.target.checked);
+              setPassphraseError(undefined);
+            }}
+            className="w-6 h-6"
+          />
+          パスワードで保護する
+        </label>
+        {usePassphrase && (
+          <div className="flex flex-col gap-3">
+            <p className="text-sm text-text-secondary">
+              住所やメモが他の人に読まれないよう暗号化します。パスワードを忘れると復元できません。
+            </p>
+            <Input
+              label="パスワード（8文字以上）"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            <Input
+              label="パスワード（確認）"
+              type="password"
+              autoComplete="new-password"
+              value={passphraseConfirm}
+              onChange={(e) => setPassphraseConfirm(e.target.value)}
+              error={passphraseError}
+            />
+          </div>
+        )}
+        <Button
+          variant="secondary"
+          size="large"
+          icon="💾"
+          onClick={handleExport}
+          loading={isExporting}
+          className="w-full"
+        >
+          バックアップを保存
+        </Button>
+        <Button
+          variant="secondary"
+          size="large"
+          icon="📂"
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full"
+        >
+          バックアップから復元
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+
+        {/* パスワード付きのバックアップを開く */}
+        {encryptedText && (
+          <div className="mt-2 rounded-xl bg-primary/5 border-2 border-primary/30 p-4 flex flex-col gap-3">
+            <p className="text-lg font-bold text-text">パスワード付きのバックアップです</p>
+            <Input
+              label="保存したときのパスワード"
+              type="password"
+              autoComplete="current-password"
+              value={restorePassphrase}
+              onChange={(e) => setRestorePassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                // かな漢字変換を確定するEnterでは開かない
+                if (e.key === 'Enter' && !e.nativeEvent.isComposing && e.keyCode !== 229) {
+                  handleDecrypt();
+                }
+              }}
+            />
+            <Button
+              variant="primary"
+              size="normal"
+              icon="🔓"
+              onClick={handleDecrypt}
+              loading={isDecrypting}
+              disabled={!restorePassphrase}
+              className="w-full"
+            >
+              開く
+            </Button>
+            <Button
+              variant="secondary"
+              size="normal"
+              onClick={() => setEncryptedText(null)}
+              disabled={isDecrypting}
+              className="w-full"
+            >
+              やめる
+            </Button>
+          </div>
+        )}
+
+        {/* 復元内容のプレビュー */}
+        {summary && (
+          <div className="mt-2 rounded-xl bg-primary/5 border-2 border-primary/30 p-4 flex flex-col gap-3">
+            <p className="text-lg font-bold text-text">このバックアップを復元しますか？</p>
+            <ul className="text-base text-text-secondary">
+              {summary.exportedAt && (
+                <li>
+                  保存日時: {format(new Date(summary.exportedAt), 'yyyy年M月d日 H:mm', { locale: ja })}
+                </li>
+              )}
+              <li>場所: {summary.placeCount}件</li>
+              <li>作成したカテゴリ: {summary.customTabCount}件</li>
+              <li>検索履歴: {summary.searchHistoryCount}件</li>
+              <li>訪問の記録: {summary.visitCount}件</li>
+            </ul>
+            <p className="text-sm text-text-secondary">
+              「追加」では、同じ場所が二重に登録されないようにまとめます。
+            </p>
+            <Button
+              variant="primary"
+              size="normal"
+              onClick={() => handleRestore('merge')}
+              loading={isRestoring}
+              className="w-full"
+            >
+              今のデータに追加する
+            </Button>
+            <Button
+              variant="danger"
+              size="normal"
+              onClick={() => setShowReplaceDialog(true)}
+              disabled={isRestoring}
+              className="w-full"
+            >
+              今のデータと置き換える
+            </Button>
+            <Button
+              variant="secondary"
+              size="normal"
+              onClick={() => setPendingBackup(null)}
+              disabled={isRestoring}
+              className="w-full"
+            >
+              やめる
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      <ConfirmDialog
+        isOpen={showReplaceDialog}
+        title="データを置き換え"
+        message="今登録されている場所とカテゴリはすべて消え、バックアップの内容に置き換わります。"
+        confirmLabel="置き換える"
+        cancelLabel="やめる"
+        variant="danger"
+        onConfirm={() => handleRestore('replace')}
+        onCancel={() => setShowReplaceDialog(false)}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useMemo, useCallback } from 'react';
+import type { ChecklistItem } from '../types';
+import {
+  createChecklistItem,
+  toggleChecklistItem,
+  uncheckAll,
+  reorderChecklist,
+  countChecked,
+} from '../lib/checklist';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { Button, Input } from './ui';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+  resetOnNavigate: boolean;
+  onResetOnNavigateChange: (value: boolean) => void;
+}
+
+// 場所の編集画面：項目の追加・書き換え・並べ替え・削除
+export function ChecklistEditor({
+  items,
+  onChange,
+  resetOnNavigate,
+  onResetOnNavigateChange,
+}: ChecklistEditorProps) {
+  const [newText, setNewText] = useState('');
+
+  const itemIds = useMemo(() => items.map((item) => item.id), [items]);
+  const handleReorder = useCallback(
+    (orderedIds: string[]) => onChange(reorderChecklist(items, orderedIds)),
+    [items, onChange]
+  );
+  const { order, draggingId, itemProps, handleProps } = useDragReorder(itemIds, handleReorder);
+
+  const handleAdd = () => {
+    if (!newText.trim()) return;
+    onChange([...items, createChecklistItem(newText.trim())]);
+    setNewText('');
+  };
+
+  const updateText = (id: string, text: string) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, text } : item)));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-base font-bold text-text">持ち物・やること</p>
+
+      {order.map((id) => {
+        const item = items.find((i) => i.id === id);
+        if (!item) return null;
+        return (
+          <div
+            key={item.id}
+            {...itemProps(item.id)}
+            className={`flex items-center gap-1 ${draggingId === item.id ? 'opacity-60' : ''}`}
+          >
+            <button
+              type="button"
+              {...handleProps(item.id)}
+              aria-label={`「${item.text}」の並び順を変える`}
+              className="p-2 text-xl text-text-secondary cursor-grab select-none"
+            >
+              ☰
+            </button>
+            <div className="flex-1">
+              <Input value={item.text} onChange={(e) => updateText(item.id, e.target.value)} />
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+              aria-label={`「${item.text}」を削除`}
+              className="p-2 text-xl text-text-secondary"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Input
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => {
+              // 入力欄でEnterを押してもフォームを送信しない
+              // かな漢字変換を確定するEnterでは、まだ追加しない
+              if (e.key === 'Enter' && !e.nativeEvent.isComposing && e.keyCode !== 229) {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="例: 診察券"
+          />
+        </div>
+        <Button type="button" variant="secondary" onClick={handleAdd} disabled={!newText.trim()}>
+          追加
+        </Button>
+      </div>
+
+      {items.length > 0 && (
+        <label className="flex items-center gap-2 text-base text-text">
+          <input
+            type="checkbox"
+            checked={resetOnNavigate}
+            onChange={(e) => onResetOnNavigateChange(e.target.checked)}
+            className="w-5 h-5"
+          />
+          ナビを始めたら、チェックをすべて外す
+        </label>
+      )}
+    </div>
+  );
+}
+
+interface ChecklistViewProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+// 詳細画面：大きなチェックで確かめながら使う
+export function ChecklistView({ items, onChange }: ChecklistViewProps) {
+  const checkedCount = countChecked(items);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm text-text-secondary">
+        持ち物・やること（{checkedCount}/{items.length}）
+      </p>
+      {items.map((item) => (
+        <button
+          key={item.id}
+          type="button"
+          role="checkbox"
+          aria-checked={item.checked}
+          onClick={() => onChange(toggleChecklistItem(items, item.id))}
+          className={`flex items-center gap-3 px-3 py-3 rounded-lg border text-left transition-colors ${
+            item.checked ? 'border-success bg-success/10' : 'border-border bg-white'
+          }`}
+        >
+          <span
+            className={`w-8 h-8 shrink-0 flex items-center justify-center rounded-md border-2 text-xl ${
+              item.checked ? 'border-success bg-success text-white' : 'border-border'
+            }`}
+          >
+            {item.checked ? '✓' : ''}
+          </span>
+          <span
+            className={`text-lg ${item.checked ? 'text-text-secondary line-through' : 'text-text'}`}
+          >
+            {item.text}
+          </span>
+        </button>
+      ))}
+      {checkedCount > 0 && (
+        <Button variant="secondary" size="small" onClick={() => onChange(uncheckAll(items))}>
+          チェックをすべて外す
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef } from 'react';
+import type { Tab } from '../types';
+import type { PlaceField, PlaceFields } from '../lib/conflicts';
+import { PLACE_FIELD_LABELS, changedFields } from '../lib/conflicts';
+import { Button } from './ui';
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  mine: PlaceFields;
+  theirs: PlaceFields;
+  tabs: Tab[];
+  onKeepMine: () => void;
+  onKeepTheirs: () => void;
+  onMerge: () => void;
+  onCancel: () => void;
+}
+
+// 別のタブ・ウィンドウで同じ場所が変更されたときに、どちらを残すか選んでもらう
+export function ConflictDialog({
+  isOpen,
+  mine,
+  theirs,
+  tabs,
+  onKeepMine,
+  onKeepTheirs,
+  onMerge,
+  onCancel,
+}: ConflictDialogProps) {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+
+    if (isOpen) {
+      dialog.showModal();
+    } else {
+      dialog.close();
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const formatValue = (fields: PlaceFields, field: PlaceField): string => {
+    if (field === 'latitude' || field === 'longitude') {
+      return `${fields.latitude.toFixed(6)}, ${fields.longitude.toFixed(6)}`;
+    }
+    if (field === 'tagIds') {
+      const names = fields.tagIds.map((id) => tabs.find((t) => t.id === id)?.name).filter(Boolean);
+      return names.length > 0 ? names.join('、') : '（なし）';
+    }
+    return fields[field] || '（空）';
+  };
+
+  // 緯度・経度は「位置」1行にまとめる
+  const fields = changedFields(mine, theirs).filter(
+    (field, _, all) => !(field === 'longitude' && all.includes('latitude'))
+  );
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="fixed inset-0 z-50 m-auto max-w-sm rounded-2xl bg-surface p-6 shadow-xl backdrop:bg-black/50"
+      onClose={onCancel}
+    >
+      <h2 className="mb-2 text-xl font-bold text-text">別の画面で変更されました</h2>
+      <p className="mb-4 text-base text-text-secondary leading-relaxed">
+        編集している間に、別のタブやウィンドウでこの場所が保存されました。どちらの内容を残すか選んでください。
+      </p>
+
+      <div className="mb-6 flex flex-col gap-3 max-h-[40vh] overflow-y-auto">
+        {fields.map((field) => (
+          <div key={field} className="rounded-lg border border-border p-3">
+            <p className="text-sm font-bold text-text mb-1">{PLACE_FIELD_LABELS[field]}</p>
+            <p className="text-sm text-text whitespace-pre-wrap break-words">
+              <span className="font-bold">自分: </span>
+              {formatValue(mine, field)}
+            </p>
+            <p className="text-sm text-text-secondary whitespace-pre-wrap break-words">
+              <span className="font-bold">別の画面: </span>
+              {formatValue(theirs, field)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3">
+        <Button variant="primary" size="large" onClick={onKeepMine} className="w-full">
+          自分の内容で保存
+        </Button>
+        <Button variant="secondary" size="large" onClick={onKeepTheirs} className="w-full">
+          別の画面の内容にする
+        </Button>
+        <Button variant="secondary" size="large" onClick={onMerge} className="w-full">
+          両方をまとめる
+        </Button>
+        <Button variant="ghost" size="normal" onClick={onCancel} className="w-full">
+          あとで決める
+        </Button>
+      </div>
+    </dialog>
+  );
+}
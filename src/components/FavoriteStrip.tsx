@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import type { Place } from '../types';
+import { openNavigation } from '../lib/maps';
+import { getSettings, recordVisit, reorderFavorites, updateSettings } from '../lib/storage';
+import { usePlaces, useSettings, useVisitStats } from '../hooks/useStorage';
+import { useDragReorder } from '../hooks/useDragReorder';
+import { Button } from './ui';
+
+// ホームの一番上に出す、お気に入りの場所へワンタップでナビを始める大きなボタン
+export function FavoriteStrip() {
+  const places = usePlaces();
+  const settings = useSettings();
+  const visitStats = useVisitStats();
+  const [isReordering, setIsReordering] = useState(false);
+
+  // ゴミ箱に入れた場所は出さない
+  const favorites = useMemo(() => {
+    const placeById = new Map(places.map((p) => [p.id, p]));
+    const result = settings.favoritePlaceIds
+      .map((id) => placeById.get(id))
+      .filter((place): place is Place => !!place);
+    if (settings.favoriteSort === 'navigation') {
+      // 回数が同じなら手動で並べた順
+      return [...result].sort(
+        (a, b) =>
+          (visitStats[b.id]?.navigationCount ?? 0) - (visitStats[a.id]?.navigationCount ?? 0)
+      );
+    }
+    return result;
+  }, [places, settings.favoritePlaceIds, settings.favoriteSort, visitStats]);
+
+  const favoriteIds = useMemo(() => favorites.map((p) => p.id), [favorites]);
+  const { order, draggingId, itemProps, handleProps } = useDragReorder(
+    favoriteIds,
+    reorderFavorites
+  );
+
+  if (favorites.length === 0) return null;
+
+  const handleNavigate = (place: Place) => {
+    const { travelMode } = getSettings();
+    recordVisit(place.id, 'navigation', travelMode);
+    openNavigation(place.latitude, place.longitude, travelMode);
+  };
+
+  if (isReordering) {
+    return (
+      <div className="flex flex-col gap-2">
+        <p className="text-base text-text-secondary">☰ をつかんで上下に動かしてください</p>
+        {order.map((id) => {
+          const place = favorites.find((p) => p.id === id);
+          if (!place) return null;
+          return (
+            <div
+              key={place.id}
+              {...itemProps(place.id)}
+              className={`flex items-center gap-2 px-3 py-3 rounded-xl border border-border bg-white ${
+                draggingId === place.id ? 'opacity-60 ring-2 ring-primary' : ''
+              }`}
+            >
+              <button
+                type="button"
+                {...handleProps(place.id)}
+                aria-label={`「${place.name}」の並び順を変える`}
+                className="p-2 text-xl text-text-secondary cursor-grab select-none"
+              >
+                ☰
+              </button>
+              <span className="text-lg font-bold text-text truncate">{place.name}</span>
+            </div>
+          );
+        })}
+        <Button variant="secondary" onClick={() => setIsReordering(false)} className="w-full">
+          並べ替えを終える
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {favorites.map((place) => (
+        <button
+          key={place.id}
+          type="button"
+          onClick={() => handleNavigate(place)}
+          className="w-full flex items-center gap-3 px-4 py-4 rounded-xl bg-primary text-white text-left shadow-sm active:bg-primary/80 transition-colors"
+        >
+          <span className="text-2xl">⭐</span>
+          <span className="flex-1 min-w-0">
+            <span className="block text-xl font-bold truncate">{place.name}</span>
+            <span className="block text-sm opacity-90">タップでナビ開始</span>
+          </span>
+          <span className="text-2xl">🚗</span>
+        </button>
+      ))}
+
+      {favorites.length >= 2 && (
+        <div className="flex gap-2">
+          <Button
+            variant={settings.favoriteSort === 'manual' ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() =>
+              settings.favoriteSort === 'manual'
+                ? setIsReordering(true)
+                : updateSettings({ favoriteSort: 'manual' })
+            }
+            className="flex-1"
+          >
+            {settings.favoriteSort === 'manual' ? '☰ 並べ替える' : '自分で並べる'}
+          </Button>
+          <Button
+            variant={settings.favoriteSort === 'navigation' ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() => updateSettings({ favoriteSort: 'navigation' })}
+            className="flex-1"
+          >
+            よく使う順
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { PlacePhoto } from '../types';
+import { createPlacePhoto, PHOTO_LIMIT } from '../lib/photos';
+import { Button } from './ui';
+import { PhotoThumbnail, PhotoViewer } from './PlacePhotos';
+import { useToast } from '../contexts/ToastContext';
+
+interface PhotoPickerProps {
+  photos: PlacePhoto[];
+  onChange: (photos: PlacePhoto[]) => void;
+  placeName: string;
+}
+
+// 場所の編集画面で写真を撮る・選ぶ・外す（保存するまで反映しない）
+export function PhotoPicker({ photos, onChange, placeName }: PhotoPickerProps) {
+  const { showToast } = useToast();
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const isFull = photos.length >= PHOTO_LIMIT;
+
+  const handleFiles = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    // 同じ写真をもう一度選べるように空にしておく
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const room = PHOTO_LIMIT - photos.length;
+    if (files.length > room) {
+      showToast(`写真は1つの場所に${PHOTO_LIMIT}枚までです`, 'error');
+    }
+
+    setIsProcessing(true);
+    try {
+      const added: PlacePhoto[] = [];
+      for (const file of files.slice(0, room)) {
+        added.push(await createPlacePhoto(file));
+      }
+      onChange([...photos, ...added]);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : '写真を読み込めませんでした', 'error');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-base font-bold text-text">
+        写真（{photos.length}/{PHOTO_LIMIT}）
+      </p>
+      <p className="text-sm text-text-secondary">入口・駐車場の看板・お店の外観などを残せます</p>
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="relative aspect-square">
+              <button
+                type="button"
+                onClick={() => setViewerIndex(index)}
+                className="w-full h-full rounded-lg overflow-hidden"
+              >
+                <PhotoThumbnail
+                  photo={photo}
+                  alt={`${placeName}の写真 ${index + 1}枚目`}
+                  className="w-full h-full"
+                />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(photos.filter((p) => p.id !== photo.id))}
+                aria-label={`${index + 1}枚目の写真を外す`}
+                className="absolute top-1 right-1 w-8 h-8 rounded-full bg-black/60 text-white"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="secondary"
+          icon="📷"
+          onClick={() => cameraInputRef.current?.click()}
+          disabled={isFull}
+          loading={isProcessing}
+          className="flex-1"
+        >
+          撮る
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          icon="🖼️"
+          onClick={() => galleryInputRef.current?.click()}
+          disabled={isFull || isProcessing}
+          className="flex-1"
+        >
+          選ぶ
+        </Button>
+      </div>
+      <input
+        ref={cameraInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handleFiles}
+        className="hidden"
+      />
+      <input
+        ref={galleryInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFiles}
+        className="hidden"
+      />
+
+      {viewerIndex !== null && photos.length > 0 && (
+        <PhotoViewer
+          photos={photos}
+          initialIndex={viewerIndex}
+          placeName={placeName}
+          onClose={() => setViewerIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
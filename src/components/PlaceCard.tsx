@@ -1,10 +1,36 @@
 import { useState } from 'react';
 import { format } from 'date-fns';
 import { ja } from 'date-fns/locale';
-import type { Place } from '../types';
+import type { Place, Tab } from '../types';
 import { Card, Button } from './ui';
+import { RevisionHistory } from './RevisionHistory';
+import { PlaceQrCode } from './PlaceQrCode';
+import { PhotoThumbnail, PhotoViewer } from './PlacePhotos';
+import { VoiceMemoPlayer } from './VoiceMemoPlayer';
+import { ChecklistView } from './Checklist';
 import { openNavigation } from '../lib/maps';
-import { getSettings, getTabs } from '../lib/storage';
+import { sharePlace } from '../lib/share';
+import { getTagColorClass, formatTagName } from '../lib/tags';
+import { countChecked } from '../lib/checklist';
+import { formatPlannedAt, getReminderLabel } from '../lib/reminders';
+import { describeRecurrence, getUpcomingDates } from '../lib/recurrence';
+import {
+  getSettings,
+  updatePlace,
+  recordVisit,
+  deleteVisit,
+  addFavorite,
+  removeFavorite,
+  FAVORITE_LIMIT,
+} from '../lib/storage';
+import {
+  useTabs,
+  useSettings,
+  useVisitStats,
+  usePlacePhotos,
+  usePlaceVoiceMemos,
+} from '../hooks/useStorage';
+import { useToast } from '../contexts/ToastContext';
 
 interface PlaceCardProps {
   place: Place;
@@ -12,41 +38,75 @@ interface PlaceCardProps {
   onNavigate?: (place: Place) => void;
 }
 
-// カテゴリの色を取得
-const getCategoryColor = (tabId: string): string => {
-  const colors: Record<string, string> = {
-    frequent: 'bg-blue-500',
-    planned: 'bg-green-500',
-    revisit: 'bg-purple-500',
-    rest: 'bg-orange-500',
-    convenience: 'bg-red-500',
-    toilet: 'bg-cyan-500',
-    other: 'bg-gray-500',
-  };
-  return colors[tabId] || 'bg-primary';
-};
-
 export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
+  const tabs = useTabs();
+  const visitStats = useVisitStats()[place.id];
+  const isFavorite = useSettings().favoritePlaceIds.includes(place.id);
+  const { showToast } = useToast();
+  const photos = usePlacePhotos(place.id);
+  const voiceMemos = usePlaceVoiceMemos(place.id);
   const [showDetail, setShowDetail] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
 
   const handleNavigate = () => {
     if (onNavigate) {
       onNavigate(place);
     }
     const settings = getSettings();
+    recordVisit(place.id, 'navigation', settings.travelMode);
     openNavigation(place.latitude, place.longitude, settings.travelMode);
   };
 
+  const handleToggleFavorite = () => {
+    if (isFavorite) {
+      removeFavorite(place.id);
+      showToast('お気に入りから外しました');
+    } else if (addFavorite(place.id)) {
+      showToast('お気に入りに入れました。ホームの上に大きく表示されます');
+    } else {
+      showToast(`お気に入りは${FAVORITE_LIMIT}件までです。ほかの場所の☆を外してください`, 'error');
+    }
+  };
+
+  // ナビを使わずに行ったときの記録
+  const handleCheckIn = () => {
+    const visit = recordVisit(place.id, 'check-in');
+    showToast('行った記録をつけました', 'success', {
+      action: {
+        label: '元に戻す',
+        onClick: () => {
+          deleteVisit(visit.id);
+          showToast('記録を取り消しました');
+        },
+      },
+    });
+  };
+
+  const handleShare = async () => {
+    try {
+      const outcome = await sharePlace(place);
+      if (outcome === 'copied') {
+        showToast('リンクをコピーしました。LINEやメールに貼り付けて送ってください');
+      }
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : '共有できませんでした', 'error');
+    }
+  };
+
   const createdDate = new Date(place.createdAt);
   const formattedDate = format(createdDate, 'M月d日', { locale: ja });
   const formattedTime = format(createdDate, 'H:mm', { locale: ja });
   const formattedFullDate = format(createdDate, 'yyyy年M月d日 H:mm', { locale: ja });
+  const lastVisitedDate = visitStats ? new Date(visitStats.lastVisitedAt) : null;
+  // 次に行く日は詳細を開いたときだけ求める
+  const upcomingDates =
+    showDetail && place.recurrence ? getUpcomingDates(place.recurrence, new Date(), 3) : [];
 
-  // カテゴリ名を取得
-  const tabs = getTabs();
-  const category = tabs.find(t => t.id === place.tabId);
-  const categoryName = category?.name || '';
-  const categoryColor = getCategoryColor(place.tabId);
+  // つけたタグ（アクセントラインは最初のタグの色）
+  const categories = place.tagIds
+    .map((tagId) => tabs.find(t => t.id === tagId))
+    .filter((tab): tab is Tab => !!tab);
+  const categoryColor = getTagColorClass(categories[0]);
 
   return (
     <>
@@ -59,20 +119,59 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
 
         <div className="pl-3 flex flex-col gap-2">
           {/* ヘッダー: カテゴリ（左上） + 日時（右上） */}
-          <div className="flex justify-between items-center gap-2">
-            {categoryName && (
-              <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-sm font-medium text-white ${categoryColor}`}>
-                {categoryName}
+          <div className="flex justify-between items-start gap-2">
+            <div className="flex flex-wrap gap-1">
+              {categories.map((category) => (
+                <span
+                  key={category.id}
+                  className={`inline-flex items-center px-2.5 py-1 rounded-full text-sm font-medium text-white ${getTagColorClass(category)}`}
+                >
+                  {formatTagName(category)}
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 ml-auto">
+              <span className="text-sm text-text-secondary whitespace-nowrap">
+                {formattedDate} {formattedTime}
               </span>
-            )}
-            <span className="text-sm text-text-secondary whitespace-nowrap ml-auto">
-              {formattedDate} {formattedTime}
-            </span>
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleToggleFavorite();
+                }}
+                aria-label={isFavorite ? 'お気に入りから外す' : 'お気に入りに入れる'}
+                aria-pressed={isFavorite}
+                className={`p-1 text-2xl leading-none ${isFavorite ? 'text-amber-500' : 'text-text-secondary'}`}
+              >
+                {isFavorite ? '★' : '☆'}
+              </button>
+            </div>
           </div>
 
           {/* 場所名 */}
           <h3 className="text-lg font-bold text-text line-clamp-2">{place.name}</h3>
 
+          {/* 写真（3枚まで） */}
+          {photos.length > 0 && (
+            <div className="flex gap-2">
+              {photos.slice(0, 3).map((photo, index) => (
+                <div key={photo.id} className="relative w-20 h-20 rounded-lg overflow-hidden">
+                  <PhotoThumbnail
+                    photo={photo}
+                    alt={`${place.name}の写真 ${index + 1}枚目`}
+                    className="w-full h-full"
+                  />
+                  {index === 2 && photos.length > 3 && (
+                    <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-white text-lg font-bold">
+                      +{photos.length - 3}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* 住所 */}
           {place.address && (
             <p className="text-base text-text-secondary line-clamp-1">📍 {place.address}</p>
@@ -83,6 +182,37 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
             <p className="text-sm text-text-secondary line-clamp-1">💬 {place.memo}</p>
           )}
 
+          {/* 行く予定 */}
+          {place.plannedAt && (
+            <p className="text-sm font-medium text-orange-600">
+              🗓️ {formatPlannedAt(place.plannedAt)}に行く予定
+            </p>
+          )}
+          {place.recurrence && (
+            <p className="text-sm font-medium text-orange-600">
+              🔁 {describeRecurrence(place.recurrence)}
+            </p>
+          )}
+
+          {/* 持ち物・やること（チェックは詳細から） */}
+          {place.checklist && place.checklist.length > 0 && (
+            <p className="text-sm text-text-secondary">
+              ☑️ 持ち物・やること {countChecked(place.checklist)}/{place.checklist.length}
+            </p>
+          )}
+
+          {/* 声のメモ（再生は詳細から） */}
+          {voiceMemos.length > 0 && (
+            <p className="text-sm text-text-secondary">🎙️ 声のメモ {voiceMemos.length}件</p>
+          )}
+
+          {/* 訪問 */}
+          {visitStats && lastVisitedDate && (
+            <p className="text-sm text-text-secondary">
+              🚶 {visitStats.count}回・最後は{format(lastVisitedDate, 'M月d日', { locale: ja })}
+            </p>
+          )}
+
           {/* アクションボタン - 編集（左）、ナビ開始（右） */}
           <div className="flex gap-2 mt-1" onClick={(e) => e.stopPropagation()}>
             <Button
@@ -131,13 +261,18 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
             {/* コンテンツ */}
             <div className="p-4 flex flex-col gap-4">
               {/* カテゴリと日時 */}
-              <div className="flex justify-between items-center">
-                {categoryName && (
-                  <span className={`inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium text-white ${categoryColor}`}>
-                    {categoryName}
-                  </span>
-                )}
-                <span className="text-sm text-text-secondary">
+              <div className="flex justify-between items-start gap-2">
+                <div className="flex flex-wrap gap-1">
+                  {categories.map((category) => (
+                    <span
+                      key={category.id}
+                      className={`inline-flex items-center px-3 py-1.5 rounded-full text-sm font-medium text-white ${getTagColorClass(category)}`}
+                    >
+                      {formatTagName(category)}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-sm text-text-secondary whitespace-nowrap">
                   {formattedFullDate}
                 </span>
               </div>
@@ -148,6 +283,29 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
                 <p className="text-xl font-bold text-text">{place.name}</p>
               </div>
 
+              {/* 写真 - タップで大きく表示 */}
+              {photos.length > 0 && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">写真（{photos.length}枚）</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {photos.map((photo, index) => (
+                      <button
+                        key={photo.id}
+                        type="button"
+                        onClick={() => setViewerIndex(index)}
+                        className="aspect-square rounded-lg overflow-hidden"
+                      >
+                        <PhotoThumbnail
+                          photo={photo}
+                          alt={`${place.name}の写真 ${index + 1}枚目`}
+                          className="w-full h-full"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* 住所 */}
               {place.address && (
                 <div>
@@ -189,6 +347,78 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
                 </div>
               )}
 
+              {/* 行く予定 */}
+              {place.plannedAt && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">行く予定</p>
+                  <p className="text-base text-text">
+                    🗓️ {formatPlannedAt(place.plannedAt)}
+                    {place.reminderMinutesBefore !== undefined &&
+                      `（${getReminderLabel(place.reminderMinutesBefore)}にお知らせ）`}
+                  </p>
+                </div>
+              )}
+
+              {/* くり返し行く予定 */}
+              {place.recurrence && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">くり返し行く</p>
+                  <p className="text-base text-text">🔁 {describeRecurrence(place.recurrence)}</p>
+                  {upcomingDates.length > 0 && (
+                    <p className="text-sm text-text-secondary mt-1">
+                      次は{' '}
+                      {upcomingDates
+                        .map((date) => format(date, 'M月d日（E）', { locale: ja }))
+                        .join('、')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* 持ち物・やること - その場でチェックできる */}
+              {place.checklist && place.checklist.length > 0 && (
+                <ChecklistView
+                  items={place.checklist}
+                  onChange={(checklist) => updatePlace(place.id, { checklist })}
+                />
+              )}
+
+              {/* 声のメモ */}
+              {voiceMemos.length > 0 && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">声のメモ</p>
+                  <div className="flex flex-col gap-2">
+                    {voiceMemos.map((memo) => (
+                      <VoiceMemoPlayer key={memo.id} memo={memo} />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* 訪問 */}
+              <div>
+                <p className="text-sm text-text-secondary mb-1">行った記録</p>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-base text-text">
+                    {visitStats && lastVisitedDate
+                      ? `${visitStats.count}回（最後は${format(lastVisitedDate, 'yyyy年M月d日 H:mm', { locale: ja })}）`
+                      : 'まだ記録がありません'}
+                  </p>
+                  <Button
+                    variant="secondary"
+                    size="small"
+                    icon="✅"
+                    onClick={handleCheckIn}
+                    className="whitespace-nowrap"
+                  >
+                    行った
+                  </Button>
+                </div>
+              </div>
+
+              {/* 変更の履歴 */}
+              <RevisionHistory place={place} />
+
               {/* アクションボタン */}
               <div className="flex gap-2 mt-2">
                 <Button
@@ -217,6 +447,18 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
                 </Button>
               </div>
 
+              {/* 家族などに送る */}
+              <Button
+                variant="secondary"
+                size="normal"
+                icon="🔗"
+                onClick={handleShare}
+                className="w-full"
+              >
+                この場所を送る
+              </Button>
+              <PlaceQrCode place={place} />
+
               {/* Google Mapで開く */}
               <a
                 href={`https://www.google.com/maps/search/?api=1&query=${place.latitude},${place.longitude}`}
@@ -230,7 +472,16 @@ export function PlaceCard({ place, onEdit, onNavigate }: PlaceCardProps) {
           </div>
         </div>
       )}
+
+      {/* 写真を画面いっぱいに表示 */}
+      {viewerIndex !== null && photos.length > 0 && (
+        <PhotoViewer
+          photos={photos}
+          initialIndex={viewerIndex}
+          placeName={place.name}
+          onClose={() => setViewerIndex(null)}
+        />
+      )}
     </>
   );
 }
-
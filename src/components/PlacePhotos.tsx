@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { PlacePhoto } from '../types';
+import { useBlobSource } from '../hooks/useBlobSource';
+
+interface PhotoThumbnailProps {
+  photo: PlacePhoto;
+  alt: string;
+  className?: string;
+}
+
+export function PhotoThumbnail({ photo, alt, className = '' }: PhotoThumbnailProps) {
+  const imageRef = useBlobSource<HTMLImageElement>(photo.thumbnail);
+  return <img ref={imageRef} alt={alt} className={`object-cover bg-gray-100 ${className}`} />;
+}
+
+interface PhotoViewerProps {
+  photos: PlacePhoto[];
+  initialIndex: number;
+  placeName: string;
+  onClose: () => void;
+}
+
+// 画面いっぱいに写真を表示する（左右のボタンで前後の写真へ）
+export function PhotoViewer({ photos, initialIndex, placeName, onClose }: PhotoViewerProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const photo = photos[Math.min(index, photos.length - 1)];
+  const imageRef = useBlobSource<HTMLImageElement>(photo.image);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black z-[60] flex flex-col"
+      role="dialog"
+      aria-label={`${placeName}の写真`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-4 py-3 text-white">
+        <span className="text-lg">
+          {index + 1} / {photos.length}
+        </span>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-2 rounded-full bg-white/20 text-lg font-bold"
+        >
+          ✕ 閉じる
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <img
+          key={photo.id}
+          ref={imageRef}
+          alt={`${placeName}の写真 ${index + 1}枚目`}
+          className="max-w-full max-h-full object-contain"
+        />
+      </div>
+
+      {photos.length > 1 && (
+        <div className="flex gap-4 px-4 py-4">
+          <button
+            type="button"
+            onClick={() => setIndex((prev) => (prev - 1 + photos.length) % photos.length)}
+            className="flex-1 py-3 rounded-xl bg-white/20 text-white text-lg font-bold"
+          >
+            ◀ 前
+          </button>
+          <button
+            type="button"
+            onClick={() => setIndex((prev) => (prev + 1) % photos.length)}
+            className="flex-1 py-3 rounded-xl bg-white/20 text-white text-lg font-bold"
+          >
+            次 ▶
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import type { Place } from '../types';
+import { createShareUrl } from '../lib/share';
+import { createQrDataUrl } from '../lib/qr';
+import { Button } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+interface PlaceQrCodeProps {
+  place: Place;
+}
+
+// 場所の詳細に表示するQRコード
+// 中身は共有リンクなので、ここメモの「QRコードを読み取る」でも普通のカメラでも読める
+export function PlaceQrCode({ place }: PlaceQrCodeProps) {
+  const { showToast } = useToast();
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  const handleShow = async () => {
+    try {
+      setDataUrl(await createQrDataUrl(createShareUrl(place)));
+    } catch {
+      // メモが長すぎるとQRコードに収まらない
+      showToast('内容が多すぎてQRコードを作れませんでした。メモを短くしてください', 'error');
+    }
+  };
+
+  if (!dataUrl) {
+    return (
+      <Button variant="secondary" size="normal" icon="🔳" onClick={handleShow} className="w-full">
+        QRコードを表示
+      </Button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <img
+        src={dataUrl}
+        alt={`${place.name}のQRコード`}
+        className="w-64 h-64 max-w-full"
+      />
+      <p className="text-sm text-text-secondary text-center">
+        相手の「QRコードを読み取る」で読み取ってもらうと、この場所を登録できます
+      </p>
+      <button
+        onClick={() => setDataUrl(null)}
+        className="text-primary text-sm py-2 active:opacity-70"
+      >
+        QRコードを閉じる
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import {
+  REMINDER_OPTIONS,
+  notificationsSupported,
+  requestNotificationPermission,
+} from '../lib/reminders';
+import { Button } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+interface PlannedVisitFieldsProps {
+  // <input type="datetime-local"> の値（空なら予定なし）
+  plannedAt: string;
+  onPlannedAtChange: (value: string) => void;
+  reminderMinutesBefore: number | undefined;
+  onReminderChange: (minutes: number | undefined) => void;
+}
+
+const selectClassName =
+  'w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+// 場所の編集画面：行く予定の日時とお知らせ
+export function PlannedVisitFields({
+  plannedAt,
+  onPlannedAtChange,
+  reminderMinutesBefore,
+  onReminderChange,
+}: PlannedVisitFieldsProps) {
+  const { showToast } = useToast();
+
+  const handleReminderChange = async (value: string) => {
+    if (value === '') {
+      onReminderChange(undefined);
+      return;
+    }
+    // お知らせを選んだときに初めて許可を求める
+    if (!(await requestNotificationPermission())) {
+      showToast('お知らせが許可されていません。端末の設定で許可してください', 'error');
+      return;
+    }
+    onReminderChange(Number(value));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor="planned-at" className="text-base font-bold text-text">
+        行く予定の日時（任意）
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="planned-at"
+          type="datetime-local"
+          value={plannedAt}
+          onChange={(e) => onPlannedAtChange(e.target.value)}
+          className="flex-1 min-w-0 rounded-xl border-2 border-border bg-white px-4 py-3 text-lg text-text focus:border-primary focus:outline-none"
+        />
+        {plannedAt && (
+          <Button type="button" variant="secondary" onClick={() => onPlannedAtChange('')}>
+            消す
+          </Button>
+        )}
+      </div>
+      {plannedAt && notificationsSupported() && (
+        <select
+          value={reminderMinutesBefore ?? ''}
+          onChange={(e) => handleReminderChange(e.target.value)}
+          className={selectClassName}
+          aria-label="お知らせ"
+        >
+          <option value="">お知らせしない</option>
+          {REMINDER_OPTIONS.map((option) => (
+            <option key={option.minutes} value={option.minutes}>
+              {`${option.label}に知らせる`}
+            </option>
+          ))}
+        </select>
+      )}
+      {plannedAt && reminderMinutesBefore !== undefined && (
+        <p className="text-sm text-text-secondary">
+          お知らせは、ここメモを開いている間に届きます。閉じていた間の分は、予定の時刻までに開けばそのときに届きます
+        </p>
+      )}
+    </div>
+  );
+}
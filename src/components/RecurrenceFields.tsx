@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { Recurrence, RecurrencePattern } from '../types';
+import {
+  WEEKDAY_LABELS,
+  RECURRENCE_KIND_LABELS,
+  NTH_LABELS,
+  createDefaultRecurrence,
+} from '../lib/recurrence';
+import { Button } from './ui';
+
+interface RecurrenceFieldsProps {
+  recurrence: Recurrence | null;
+  onChange: (recurrence: Recurrence | null) => void;
+}
+
+const selectClassName =
+  'w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+const inputClassName =
+  'flex-1 min-w-0 rounded-xl border-2 border-border bg-white px-4 py-3 text-lg text-text focus:border-primary focus:outline-none';
+
+const INTERVAL_OPTIONS = [1, 2, 3, 4];
+
+// 場所の編集画面：くり返し行く予定（通院・送り迎えなど）
+export function RecurrenceFields({ recurrence, onChange }: RecurrenceFieldsProps) {
+  const [newDate, setNewDate] = useState('');
+
+  const handleKindChange = (value: string) => {
+    if (value === '') {
+      onChange(null);
+      return;
+    }
+    // 時刻と休みにした日は、種類を変えても残す
+    onChange({
+      ...createDefaultRecurrence(value as RecurrencePattern['kind'], new Date()),
+      time: recurrence?.time,
+      skippedDates: recurrence?.skippedDates,
+    });
+  };
+
+  const update = (fields: Partial<Recurrence>) => {
+    if (!recurrence) return;
+    onChange({ ...recurrence, ...fields } as Recurrence);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (recurrence?.kind !== 'weekly') return;
+    const weekdays = recurrence.weekdays.includes(weekday)
+      ? recurrence.weekdays.filter((d) => d !== weekday)
+      : [...recurrence.weekdays, weekday].sort((a, b) => a - b);
+    update({ weekdays });
+  };
+
+  const handleAddDate = () => {
+    if (recurrence?.kind !== 'dates' || !newDate) return;
+    if (!recurrence.dates.includes(newDate)) {
+      update({ dates: [...recurrence.dates, newDate].sort() });
+    }
+    setNewDate('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor="recurrence-kind" className="text-base font-bold text-text">
+        くり返し行く（任意）
+      </label>
+      <select
+        id="recurrence-kind"
+        value={recurrence?.kind ?? ''}
+        onChange={(e) => handleKindChange(e.target.value)}
+        className={selectClassName}
+      >
+        <option value="">くり返さない</option>
+        {(Object.keys(RECURRENCE_KIND_LABELS) as RecurrencePattern['kind'][]).map((kind) => (
+          <option key={kind} value={kind}>
+            {RECURRENCE_KIND_LABELS[kind]}
+          </option>
+        ))}
+      </select>
+
+      {recurrence?.kind === 'weekly' && (
+        <>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAY_LABELS.map((label, weekday) => {
+              const selected = recurrence.weekdays.includes(weekday);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`py-3 rounded-lg border-2 text-lg font-bold transition-colors ${
+                    selected
+                      ? 'border-primary bg-primary text-white'
+                      : 'border-border bg-white text-text'
+                  }`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          {recurrence.weekdays.length === 0 && (
+            <p className="text-sm text-danger">曜日を選んでください</p>
+          )}
+          <select
+            value={recurrence.intervalWeeks}
+            onChange={(e) => update({ intervalWeeks: Number(e.target.value) })}
+            className={selectClassName}
+            aria-label="何週間ごと"
+          >
+            {INTERVAL_OPTIONS.map((weeks) => (
+              <option key={weeks} value={weeks}>
+                {weeks === 1 ? '毎週' : `${weeks}週間ごと`}
+              </option>
+            ))}
+          </select>
+          {recurrence.intervalWeeks > 1 && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="recurrence-start" className="text-base text-text shrink-0">
+                始める日
+              </label>
+              <input
+                id="recurrence-start"
+                type="date"
+                value={recurrence.startDate}
+                onChange={(e) => e.target.value && update({ startDate: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {recurrence?.kind === 'monthly-weekday' && (
+        <div className="flex gap-2">
+          <select
+            value={recurrence.nth}
+            onChange={(e) => update({ nth: Number(e.target.value) })}
+            className={selectClassName}
+            aria-label="第何週"
+          >
+            {[1, 2, 3, 4, -1].map((nth) => (
+              <option key={nth} value={nth}>
+                {NTH_LABELS[nth]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={recurrence.weekday}
+            onChange={(e) => update({ weekday: Number(e.target.value) })}
+            className={selectClassName}
+            aria-label="曜日"
+          >
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <option key={label} value={weekday}>
+                {label}曜日
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {recurrence?.kind === 'dates' && (
+        <>
+          {recurrence.dates.map((date) => (
+            <div key={date} className="flex items-center gap-2">
+              <span className="flex-1 text-lg text-text">
+                {format(parseISO(date), 'yyyy年M月d日（E）', { locale: ja })}
+              </span>
+              <button
+                type="button"
+                onClick={() => update({ dates: recurrence.dates.filter((d) => d !== date) })}
+                aria-label={`${date}を削除`}
+                className="p-2 text-xl text-text-secondary"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              className={inputClassName}
+              aria-label="行く日"
+            />
+            <Button type="button" variant="secondary" onClick={handleAddDate} disabled={!newDate}>
+              追加
+            </Button>
+          </div>
+        </>
+      )}
+
+      {recurrence && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="recurrence-time" className="text-base text-text shrink-0">
+            時刻（任意）
+          </label>
+          <input
+            id="recurrence-time"
+            type="time"
+            value={recurrence.time ?? ''}
+            onChange={(e) => update({ time: e.target.value || undefined })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
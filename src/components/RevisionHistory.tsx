@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { Place, FieldChange } from '../types';
+import { PLACE_FIELD_LABELS } from '../lib/conflicts';
+import { REVISION_SOURCE_LABELS } from '../lib/revisions';
+import { restorePlaceRevision } from '../lib/storage';
+import { usePlaceRevisions, useTabs } from '../hooks/useStorage';
+import { Button } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+interface RevisionHistoryProps {
+  place: Place;
+}
+
+// 場所の詳細に表示する変更の履歴
+export function RevisionHistory({ place }: RevisionHistoryProps) {
+  const { showToast } = useToast();
+  const revisions = usePlaceRevisions(place.id);
+  const tabs = useTabs();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (revisions.length === 0) return null;
+
+  const formatValue = (change: FieldChange, value: unknown): string => {
+    const tagName = (id: unknown) => tabs.find((t) => t.id === id)?.name || '（削除したカテゴリ）';
+    if (change.field === 'tagIds' && Array.isArray(value)) {
+      return value.length > 0 ? value.map(tagName).join('、') : '（なし）';
+    }
+    // タグを複数つけられるようになる前の履歴
+    if ((change.field as string) === 'tabId') return tagName(value);
+    if (typeof value === 'number') return value.toFixed(6);
+    return typeof value === 'string' && value ? value : '（空）';
+  };
+
+  // 緯度と経度は「位置」1行にまとめる
+  const describe = (changes: FieldChange[]): string[] =>
+    changes
+      .filter((c) => !(c.field === 'longitude' && changes.some((o) => o.field === 'latitude')))
+      .map((c) => {
+        if (c.field === 'latitude' || c.field === 'longitude') return '位置を変更';
+        const field = (c.field as string) === 'tabId' ? 'tagIds' : c.field;
+        const label = PLACE_FIELD_LABELS[field as keyof typeof PLACE_FIELD_LABELS] || c.field;
+        return `${label}: ${formatValue(c, c.before)} → ${formatValue(c, c.after)}`;
+      });
+
+  const handleRestore = (revisionId: string) => {
+    if (restorePlaceRevision(place.id, revisionId)) {
+      showToast('以前の内容に戻しました');
+    } else {
+      showToast('戻せませんでした', 'error');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-50 text-base font-medium text-text active:bg-gray-100"
+        aria-expanded={isOpen}
+      >
+        <span>🕘 変更の履歴（{revisions.length}件）</span>
+        <span>{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <ol className="flex flex-col gap-3">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="border border-border rounded-lg p-3 flex flex-col gap-2">
+              <p className="text-sm text-text-secondary">
+                {format(new Date(revision.createdAt), 'yyyy年M月d日 H:mm', { locale: ja })}
+                {` ・ ${REVISION_SOURCE_LABELS[revision.source]}`}
+              </p>
+              <ul className="flex flex-col gap-1">
+                {describe(revision.changes).map((line, index) => (
+                  <li key={index} className="text-sm text-text whitespace-pre-wrap break-words">
+                    {line}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                variant="secondary"
+                size="small"
+                icon="↩️"
+                onClick={() => handleRestore(revision.id)}
+              >
+                この変更の前に戻す
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Tab } from '../types';
+import { isSmartTab } from '../lib/smartLists';
+import { getTagColorClass, formatTagName } from '../lib/tags';
+
+interface SmartListChipsProps {
+  tabs: Tab[];
+  selectedId: string;
+  onSelect: (tabId: string) => void;
+}
+
+// 「すべて」と自分で作ったスマートリストから1つ選ぶ
+export function SmartListChips({ tabs, selectedId, onSelect }: SmartListChipsProps) {
+  const smartTabs = tabs.filter((t) => isSmartTab(t) && (!t.hidden || t.id === selectedId));
+
+  return (
+    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="スマートリスト">
+      {smartTabs.map((tab) => {
+        const isSelected = tab.id === selectedId;
+        return (
+          <button
+            key={tab.id}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            onClick={() => onSelect(tab.id)}
+            className={`
+              whitespace-nowrap rounded-full px-4 py-2 text-base font-bold
+              transition-colors duration-200
+              ${
+                isSelected
+                  ? `${getTagColorClass(tab)} text-white`
+                  : 'bg-white text-text-secondary border-2 border-dashed border-border hover:bg-gray-50'
+              }
+            `}
+          >
+            {tab.id !== 'all' && !tab.icon && '🔎 '}
+            {formatTagName(tab)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
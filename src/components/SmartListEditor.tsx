@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import type { Tab, SmartRule, TagMatchMode } from '../types';
+import type { TabOptions, TabStyle } from '../lib/storage';
+import {
+  SMART_RULE_KIND_LABELS,
+  SMART_PERIOD_LABELS,
+  SMART_TEXT_FIELD_LABELS,
+  createDefaultRule,
+  isSmartTab,
+} from '../lib/smartLists';
+import { Button, Input } from './ui';
+import { TabStyleFields } from './TabStyleFields';
+import { useToast } from '../contexts/ToastContext';
+
+interface SmartListEditorProps {
+  // 編集するときは元のスマートリスト
+  initial?: Tab;
+  tabs: Tab[];
+  onSave: (name: string, options: TabOptions) => void;
+  onCancel: () => void;
+}
+
+const KM_OPTIONS = [0.5, 1, 2, 3, 5, 10, 20];
+const MONTH_OPTIONS = [1, 3, 6, 12, 24];
+
+const selectClassName =
+  'w-full px-3 py-2 text-base rounded-lg border border-border bg-white text-text focus:outline-none focus:ring-2 focus:ring-primary/30';
+
+// スマートリストの名前・見た目・条件を入力する
+export function SmartListEditor({ initial, tabs, onSave, onCancel }: SmartListEditorProps) {
+  const { showToast } = useToast();
+  const [name, setName] = useState(initial?.name ?? '');
+  const [style, setStyle] = useState<TabStyle>({ icon: initial?.icon, color: initial?.color });
+  const [rules, setRules] = useState<SmartRule[]>(initial?.rules ?? []);
+  const [ruleMatch, setRuleMatch] = useState<TagMatchMode>(initial?.ruleMatch ?? 'all');
+
+  const tagTabs = tabs.filter((t) => !isSmartTab(t));
+
+  const updateRule = (index: number, rule: SmartRule) =>
+    setRules((prev) => prev.map((r, i) => (i === index ? rule : r)));
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      showToast('名前を入力してください', 'error');
+      return;
+    }
+    if (rules.length === 0) {
+      showToast('条件を1つ以上追加してください', 'error');
+      return;
+    }
+    if (rules.some((rule) => rule.kind === 'text' && !rule.text.trim())) {
+      showToast('探す文字を入力してください', 'error');
+      return;
+    }
+    if (rules.some((rule) => rule.kind === 'tag' && !rule.tagId)) {
+      showToast('カテゴリを選んでください', 'error');
+      return;
+    }
+    onSave(name.trim(), { ...style, rules, ruleMatch });
+  };
+
+  const renderRuleFields = (rule: SmartRule, index: number) => {
+    switch (rule.kind) {
+      case 'near':
+        return (
+          <select
+            value={rule.km}
+            onChange={(e) => updateRule(index, { ...rule, km: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {KM_OPTIONS.map((km) => (
+              <option key={km} value={km}>{`現在地から${km}km以内`}</option>
+            ))}
+          </select>
+        );
+      case 'created-in':
+        return (
+          <select
+            value={rule.period}
+            onChange={(e) =>
+              updateRule(index, { ...rule, period: e.target.value as typeof rule.period })
+            }
+            className={selectClassName}
+          >
+            {Object.entries(SMART_PERIOD_LABELS).map(([period, label]) => (
+              <option key={period} value={period}>{`${label}登録した`}</option>
+            ))}
+          </select>
+        );
+      case 'text':
+        return (
+          <div className="flex flex-col gap-2">
+            <select
+              value={rule.field}
+              onChange={(e) =>
+                updateRule(index, { ...rule, field: e.target.value as typeof rule.field })
+              }
+              className={selectClassName}
+            >
+              {Object.entries(SMART_TEXT_FIELD_LABELS).map(([field, label]) => (
+                <option key={field} value={field}>{`${label}に次の文字を含む`}</option>
+              ))}
+            </select>
+            <Input
+              value={rule.text}
+              onChange={(e) => updateRule(index, { ...rule, text: e.target.value })}
+              placeholder="例: 駐車場"
+            />
+          </div>
+        );
+      case 'stale':
+        return (
+          <select
+            value={rule.months}
+            onChange={(e) => updateRule(index, { ...rule, months: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {MONTH_OPTIONS.map((months) => (
+              <option key={months} value={months}>{`${months}か月以上編集していない`}</option>
+            ))}
+          </select>
+        );
+      case 'tag':
+        return (
+          <select
+            value={rule.tagId}
+            onChange={(e) => updateRule(index, { ...rule, tagId: e.target.value })}
+            className={selectClassName}
+          >
+            {!tagTabs.some((t) => t.id === rule.tagId) && (
+              <option value="">カテゴリを選んでください</option>
+            )}
+            {tagTabs.map((tab) => (
+              <option key={tab.id} value={tab.id}>{`カテゴリが「${tab.name}」`}</option>
+            ))}
+          </select>
+        );
+      case 'phone':
+        return <p className="text-base text-text py-2">電話番号が登録されている</p>;
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Input
+        label="名前"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="例: 近くの駐車場"
+      />
+      <TabStyleFields value={style} onChange={setStyle} />
+
+      <div className="flex flex-col gap-2">
+        <p className="text-base font-bold text-text">条件</p>
+        {rules.map((rule, index) => (
+          <div key={index} className="flex gap-2 items-start">
+            <div className="flex-1">{renderRuleFields(rule, index)}</div>
+            <Button
+              variant="ghost"
+              onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+              className="!p-2 !min-h-0"
+              aria-label="この条件を削除"
+            >
+              ✕
+            </Button>
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(e) => {
+            const kind = e.target.value as SmartRule['kind'];
+            if (kind) setRules((prev) => [...prev, createDefaultRule(kind, tagTabs)]);
+          }}
+          className={selectClassName}
+        >
+          <option value="">＋ 条件を追加</option>
+          {Object.entries(SMART_RULE_KIND_LABELS).map(([kind, label]) => (
+            <option key={kind} value={kind}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 条件が2つ以上のときだけ組み合わせ方を選べる */}
+      {rules.length >= 2 && (
+        <div className="flex gap-2">
+          <Button
+            variant={ruleMatch === 'all' ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() => setRuleMatch('all')}
+            className="flex-1"
+          >
+            すべて満たす
+          </Button>
+          <Button
+            variant={ruleMatch === 'any' ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() => setRuleMatch('any')}
+            className="flex-1"
+          >
+            どれかを満たす
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="primary" onClick={handleSave} className="flex-1">
+          保存
+        </Button>
+        <Button variant="secondary" onClick={onCancel} className="flex-1">
+          取消
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'created-desc', label: '登録が新しい順' },
   { value: 'created-asc', label: '登録が古い順' },
   { value: 'name-asc', label: 'あいうえお順' },
+  { value: 'visits-desc', label: 'よく行く順' },
+  { value: 'visited-desc', label: '最近行った順' },
 ];
 
 export function SortSelect({ value, onChange }: SortSelectProps) {
@@ -0,0 +1,142 @@
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import { configureSync } from '../lib/storage';
+import { syncNow } from '../lib/sync';
+import { useSettings, useOutbox, useSyncState } from '../hooks/useStorage';
+import { Button, Card, Input } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+// 同期先の URL を確かめる（エラーがなければ undefined）
+function validateEndpoint(endpoint: string): string | undefined {
+  if (!endpoint) return undefined;
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return 'URLの形式が正しくありません';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'http:// か https:// で始まるURLを入力してください';
+  }
+  // https のページから http のサーバーへはブラウザが通信を止める
+  if (
+    window.location.protocol === 'https:' &&
+    url.protocol === 'http:' &&
+    url.hostname !== 'localhost' &&
+    url.hostname !== '127.0.0.1'
+  ) {
+    return 'このページは https で開いているため、https のサーバーを指定してください';
+  }
+  return undefined;
+}
+
+export function SyncSection() {
+  const { showToast } = useToast();
+  const settings = useSettings();
+  const outbox = useOutbox();
+  const syncState = useSyncState();
+  const [endpoint, setEndpoint] = useState(settings.syncEndpoint);
+  const [token, setToken] = useState(settings.syncToken);
+  const [endpointError, setEndpointError] = useState<string>();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const isConfigured = !!settings.syncEndpoint;
+  const isDirty = endpoint.trim() !== settings.syncEndpoint || token !== settings.syncToken;
+
+  const handleSyncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      const { pulled, pushed } = await syncNow();
+      showToast(
+        pulled + pushed > 0 ? `同期しました（受信${pulled}件・送信${pushed}件）` : '同期しました'
+      );
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : '同期できませんでした', 'error');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [showToast]);
+
+  const handleSave = useCallback(() => {
+    const trimmed = endpoint.trim();
+    const error = validateEndpoint(trimmed);
+    setEndpointError(error);
+    if (error) return;
+
+    configureSync(trimmed, token);
+    if (!trimmed) {
+      showToast('同期をやめました');
+      return;
+    }
+    showToast('同期先を保存しました');
+    handleSyncNow();
+  }, [endpoint, token, showToast, handleSyncNow]);
+
+  return (
+    <section>
+      <h2 className="text-xl font-bold text-text mb-4">ほかの端末と同期</h2>
+      <Card className="flex flex-col gap-3">
+        <p className="text-base text-text-secondary leading-relaxed">
+          家族のスマホやタブレットと同じ場所リストを使えます。
+          同期用のサーバーのURLと合言葉を、すべての端末で同じように設定してください。
+        </p>
+        <Input
+          label="サーバーのURL"
+          type="url"
+          inputMode="url"
+          placeholder="https://example.com:8787"
+          value={endpoint}
+          onChange={(e) => {
+            setEndpoint(e.target.value);
+            setEndpointError(undefined);
+          }}
+          error={endpointError}
+        />
+        <Input
+          label="合言葉（サーバーで決めたもの）"
+          type="password"
+          autoComplete="off"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+        />
+        <Button
+          variant="secondary"
+          size="large"
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="w-full"
+        >
+          保存
+        </Button>
+
+        {isConfigured && (
+          <>
+            <div className="flex flex-col gap-1 text-base text-text">
+              <p>
+                最後の同期:{' '}
+                {syncState.lastSyncedAt
+                  ? format(new Date(syncState.lastSyncedAt), 'M月d日 H:mm', { locale: ja })
+                  : 'まだありません'}
+              </p>
+              <p>送信待ちの変更: {outbox.length}件</p>
+              {syncState.lastError && (
+                <p className="text-danger">⚠️ {syncState.lastError}</p>
+              )}
+            </div>
+            <Button
+              variant="primary"
+              size="large"
+              icon="🔄"
+              onClick={handleSyncNow}
+              loading={isSyncing}
+              className="w-full"
+            >
+              今すぐ同期
+            </Button>
+          </>
+        )}
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+import type { TabStyle } from '../lib/storage';
+import { TAG_COLORS, TAG_ICONS } from '../lib/tags';
+import { Input } from './ui';
+
+interface TabStyleFieldsProps {
+  value: TabStyle;
+  onChange: (value: TabStyle) => void;
+}
+
+// カテゴリの絵文字と色を選ぶ
+export function TabStyleFields({ value, onChange }: TabStyleFieldsProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-2">
+        <p className="text-base font-bold text-text">絵文字</p>
+        <div className="flex flex-wrap gap-1">
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, icon: undefined })}
+            aria-pressed={!value.icon}
+            className={`h-10 px-3 rounded-lg text-sm ${
+              !value.icon ? 'bg-primary/10 ring-2 ring-primary' : 'bg-gray-50'
+            }`}
+          >
+            なし
+          </button>
+          {TAG_ICONS.map((icon) => (
+            <button
+              key={icon}
+              type="button"
+              onClick={() => onChange({ ...value, icon })}
+              aria-pressed={value.icon === icon}
+              className={`w-10 h-10 rounded-lg text-xl ${
+                value.icon === icon ? 'bg-primary/10 ring-2 ring-primary' : 'bg-gray-50'
+              }`}
+            >
+              {icon}
+            </button>
+          ))}
+        </div>
+        <Input
+          value={value.icon ?? ''}
+          onChange={(e) => onChange({ ...value, icon: e.target.value.trim() || undefined })}
+          placeholder="ほかの絵文字を入力"
+          maxLength={8}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <p className="text-base font-bold text-text">色</p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, color: undefined })}
+            aria-label="基本の色"
+            aria-pressed={!value.color}
+            className={`w-10 h-10 rounded-full bg-primary ${
+              !value.color ? 'ring-4 ring-offset-2 ring-primary' : ''
+            }`}
+          />
+          {TAG_COLORS.map((color) => (
+            <button
+              key={color.id}
+              type="button"
+              onClick={() => onChange({ ...value, color: color.id })}
+              aria-label={color.label}
+              aria-pressed={value.color === color.id}
+              className={`w-10 h-10 rounded-full ${color.className} ${
+                value.color === color.id ? 'ring-4 ring-offset-2 ring-primary' : ''
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { Tab } from '../types';
+import { getTagColorClass, formatTagName, selectableTags } from '../lib/tags';
+
+interface TagChipsProps {
+  tabs: Tab[];
+  selectedIds: string[];
+  onToggle: (tagId: string) => void;
+  label?: string;
+}
+
+// タグを複数選べるチップ
+export function TagChips({ tabs, selectedIds, onToggle, label }: TagChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label={label}>
+      {selectableTags(tabs, selectedIds).map((tab) => {
+        const isSelected = selectedIds.includes(tab.id);
+        return (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => onToggle(tab.id)}
+            aria-pressed={isSelected}
+            className={`
+              whitespace-nowrap rounded-full px-4 py-2 text-base font-medium
+              transition-colors duration-200
+              ${
+                isSelected
+                  ? `${getTagColorClass(tab)} text-white`
+                  : 'bg-white text-text-secondary border border-border hover:bg-gray-50'
+              }
+            `}
+          >
+            {isSelected && '✓ '}
+            {formatTagName(tab)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import type { Place } from '../types';
+import { openNavigation } from '../lib/maps';
+import { getSettings, recordVisit, updatePlace } from '../lib/storage';
+import { getScheduledVisits, toggleSkippedDate } from '../lib/recurrence';
+import { usePlaces } from '../hooks/useStorage';
+
+// ホームの一番上に出す、今日行く予定の場所（タップでナビ開始）
+export function TodayPlans() {
+  const places = usePlaces();
+  const today = new Date();
+  // 場所の数だけ見ればよいので、表示のたびに求める（日付が変わっても古い予定が残らない）
+  const plans = getScheduledVisits(places, today);
+
+  if (plans.length === 0) return null;
+
+  const handleNavigate = (place: Place) => {
+    const { travelMode } = getSettings();
+    recordVisit(place.id, 'navigation', travelMode);
+    openNavigation(place.latitude, place.longitude, travelMode);
+  };
+
+  // くり返しの予定を今日だけ休む／休みを取り消す
+  const handleToggleSkip = (place: Place) => {
+    if (!place.recurrence) return;
+    updatePlace(place.id, { recurrence: toggleSkippedDate(place.recurrence, today) });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-lg font-bold text-text">今日の予定</p>
+      {plans.map((plan) => (
+        <div
+          key={`${plan.place.id}-${plan.recurring ? 'recurring' : 'planned'}`}
+          className="flex flex-col gap-1"
+        >
+          {plan.skipped ? (
+            <div className="w-full flex items-center gap-3 px-4 py-3 rounded-xl border border-border bg-white text-text-secondary">
+              <span className="text-2xl">💤</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-lg font-bold truncate line-through">
+                  {plan.place.name}
+                </span>
+                <span className="block text-sm">今日はお休み</span>
+              </span>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => handleNavigate(plan.place)}
+              className="w-full flex items-center gap-3 px-4 py-4 rounded-xl bg-orange-500 text-white text-left shadow-sm active:bg-orange-500/80 transition-colors"
+            >
+              <span className="text-2xl">{plan.recurring ? '🔁' : '🗓️'}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-xl font-bold truncate">{plan.place.name}</span>
+                <span className="block text-sm opacity-90">
+                  {plan.time ? `${plan.time}・` : ''}タップでナビ開始
+                </span>
+              </span>
+              <span className="text-2xl">🚗</span>
+            </button>
+          )}
+          {plan.recurring && (
+            <button
+              type="button"
+              onClick={() => handleToggleSkip(plan.place)}
+              className="self-end px-2 py-1 text-sm text-text-secondary underline"
+            >
+              {plan.skipped ? '休みを取り消す' : '今日は休む'}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
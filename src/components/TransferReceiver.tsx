@@ -0,0 +1,200 @@
+import { useState, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { TransferProgress } from '../lib/transfer';
+import {
+  parseFrame,
+  addFrame,
+  missingChunks,
+  formatChunkList,
+  assembleTransfer,
+  loadTransferProgress,
+  saveTransferProgress,
+  clearTransferProgress,
+} from '../lib/transfer';
+import type { DeviceSnapshot } from '../lib/storage';
+import { restoreDeviceSnapshot } from '../lib/storage';
+import { useQrCamera } from '../hooks/useQrCamera';
+import { Button, Card, ConfirmDialog } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+// 足りない番号が多いときは先頭だけ表示する
+const MAX_MISSING_SHOWN = 30;
+
+// 新しい端末：古い端末に表示したQRコードを読み取ってデータを組み立てる
+export function TransferReceiver() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  // 前回の途中から続ける
+  const [progress, setProgress] = useState<TransferProgress | null>(loadTransferProgress);
+  const progressRef = useRef(progress);
+  const [snapshot, setSnapshot] = useState<DeviceSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const missing = progress ? missingChunks(progress) : [];
+  const isComplete = !!progress && missing.length === 0;
+
+  const handleComplete = useCallback(async (completed: TransferProgress) => {
+    try {
+      setSnapshot(await assembleTransfer(completed));
+    } catch (assembleError) {
+      // 組み立てられなかったときは最初から読み直す
+      clearTransferProgress();
+      progressRef.current = null;
+      setProgress(null);
+      setError(
+        assembleError instanceof Error ? assembleError.message : 'データを読み取れませんでした'
+      );
+    }
+  }, []);
+
+  const handleText = useCallback(
+    (text: string) => {
+      const frame = parseFrame(text);
+      if (!frame) return;
+      const next = addFrame(progressRef.current, frame);
+      if (next === progressRef.current) return;
+
+      progressRef.current = next;
+      saveTransferProgress(next);
+      setProgress(next);
+      setError(null);
+      if (missingChunks(next).length === 0) {
+        handleComplete(next);
+        return true;
+      }
+    },
+    [handleComplete]
+  );
+  const { videoRef, error: cameraError } = useQrCamera(handleText, !isComplete);
+
+  const handleReset = () => {
+    clearTransferProgress();
+    progressRef.current = null;
+    setProgress(null);
+    setSnapshot(null);
+  };
+
+  const handleRestore = async () => {
+    if (!snapshot) return;
+    setShowConfirm(false);
+    setIsRestoring(true);
+    try {
+      await restoreDeviceSnapshot(snapshot);
+      clearTransferProgress();
+      showToast('データを引っ越しました');
+      navigate('/');
+    } catch (restoreError) {
+      console.error('Transfer restore error:', restoreError);
+      showToast('データを保存できませんでした', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (snapshot) {
+    const placeCount = snapshot.places.filter((p) => !p.deletedAt).length;
+    const customTabCount = snapshot.tabs.filter((t) => t.isCustom && !t.deletedAt).length;
+
+    return (
+      <div className="flex flex-col gap-4">
+        <Card className="flex flex-col gap-2">
+          <p className="text-lg font-bold text-text">✅ そろいました</p>
+          <ul className="text-base text-text flex flex-col gap-1">
+            <li>場所: {placeCount}件</li>
+            <li>カスタムカテゴリ: {customTabCount}件</li>
+            <li>検索履歴: {snapshot.searchHistory.length}件</li>
+            <li>訪問の記録: {snapshot.visits.length}件</li>
+          </ul>
+        </Card>
+        <Button
+          variant="primary"
+          size="large"
+          icon="📥"
+          onClick={() => setShowConfirm(true)}
+          loading={isRestoring}
+          className="w-full"
+        >
+          このデータを使う
+        </Button>
+        <Button variant="secondary" size="large" onClick={handleReset} className="w-full">
+          最初からやり直す
+        </Button>
+
+        <ConfirmDialog
+          isOpen={showConfirm}
+          title="データを置き換えます"
+          message="この端末のデータはすべて、読み取ったデータに置き換わります。この操作は取り消せません。"
+          confirmLabel="置き換える"
+          cancelLabel="やめる"
+          variant="danger"
+          onConfirm={handleRestore}
+          onCancel={() => setShowConfirm(false)}
+        />
+      </div>
+    );
+  }
+
+  const received = progress ? progress.total - missing.length : 0;
+
+  return (
+    <div className="flex flex-col gap-4">
+      {cameraError ? (
+        <div className="flex flex-col items-center justify-center py-8 text-center">
+          <p className="text-5xl mb-3">📷</p>
+          <p className="text-lg text-text-secondary">{cameraError}</p>
+        </div>
+      ) : (
+        <div className="relative w-full aspect-square bg-black rounded-2xl overflow-hidden">
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-base text-danger">{error}</p>}
+
+      {progress ? (
+        <Card className="flex flex-col gap-2">
+          <p className="text-lg font-bold text-text">
+            {isComplete ? 'すべて読み取りました' : `${received} / ${progress.total} 枚 読み取りました`}
+          </p>
+          <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${(received / progress.total) * 100}%` }}
+            />
+          </div>
+          {isComplete && (
+            // 前回すべて読み取ったところでアプリを閉じた場合
+            <Button variant="primary" size="normal" onClick={() => handleComplete(progress)}>
+              読み取ったデータを確かめる
+            </Button>
+          )}
+          {missing.length > 0 && received > 0 && (
+            <p className="text-sm text-text-secondary break-words">
+              足りない番号:{' '}
+              {formatChunkList(missing.slice(0, MAX_MISSING_SHOWN))}
+              {missing.length > MAX_MISSING_SHOWN && ' …'}
+            </p>
+          )}
+        </Card>
+      ) : (
+        <p className="text-base text-text-secondary leading-relaxed">
+          古い端末で「データを送る」を開き、表示されたQRコードを映してください。
+          順番はばらばらでも、読み取れなかった分は次に表示されたときに読み取ります。
+        </p>
+      )}
+
+      {progress && (
+        <Button variant="secondary" size="large" onClick={handleReset} className="w-full">
+          最初からやり直す
+        </Button>
+      )}
+    </div>
+  );
+}
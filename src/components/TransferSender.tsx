@@ -0,0 +1,127 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { TransferPackage } from '../lib/transfer';
+import { createTransferPackage, encodeFrame, parseChunkList } from '../lib/transfer';
+import { createQrDataUrl } from '../lib/qr';
+import { Button, Input } from './ui';
+import { useToast } from '../contexts/ToastContext';
+
+const SPEED_OPTIONS = [
+  { label: 'ゆっくり', interval: 1000 },
+  { label: 'ふつう', interval: 500 },
+  { label: 'はやい', interval: 250 },
+] as const;
+
+// 古い端末：データのQRコードを順番に表示し続ける
+export function TransferSender() {
+  const { showToast } = useToast();
+  const [pkg, setPkg] = useState<TransferPackage | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [frameInterval, setFrameInterval] = useState<number>(SPEED_OPTIONS[1].interval);
+  const [onlyText, setOnlyText] = useState('');
+  const [frame, setFrame] = useState<{ index: number; dataUrl: string } | null>(null);
+
+  // 受け取る側で足りない番号があれば、その番号だけを繰り返す
+  const indexes = useMemo(() => {
+    if (!pkg) return [];
+    const only = parseChunkList(onlyText, pkg.chunks.length);
+    return only.length > 0 ? only : pkg.chunks.map((_, i) => i + 1);
+  }, [pkg, onlyText]);
+
+  useEffect(() => {
+    if (!pkg || indexes.length === 0) return;
+    let position = 0;
+    let timerId: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const show = async () => {
+      const index = indexes[position % indexes.length];
+      position += 1;
+      const dataUrl = await createQrDataUrl(encodeFrame(pkg, index));
+      if (stopped) return;
+      setFrame({ index, dataUrl });
+      timerId = setTimeout(show, frameInterval);
+    };
+    show();
+
+    return () => {
+      stopped = true;
+      if (timerId) clearTimeout(timerId);
+    };
+  }, [pkg, indexes, frameInterval]);
+
+  const handleStart = async () => {
+    setIsPreparing(true);
+    try {
+      setPkg(await createTransferPackage());
+    } catch (error) {
+      console.error('Transfer error:', error);
+      showToast('データを準備できませんでした', 'error');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  if (!pkg) {
+    return (
+      <div className="flex flex-col gap-4">
+        <p className="text-base text-text-secondary leading-relaxed">
+          この端末のデータをQRコードにして、次々に表示します。
+          新しい端末で「データを受け取る」を開き、この画面を映してください。
+        </p>
+        <Button
+          variant="primary"
+          size="large"
+          icon="🔳"
+          onClick={handleStart}
+          loading={isPreparing}
+          className="w-full"
+        >
+          QRコードを表示しはじめる
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col items-center gap-2">
+        <div className="w-full max-w-xs aspect-square bg-white flex items-center justify-center">
+          {frame && (
+            <img src={frame.dataUrl} alt="引っ越し用のQRコード" className="w-full h-full" />
+          )}
+        </div>
+        <p className="text-lg font-bold text-text">
+          {frame ? `${frame.index} / ${pkg.chunks.length}` : '準備中…'}
+        </p>
+        <p className="text-sm text-text-secondary text-center">
+          受け取る側で「そろいました」と出るまで、このまま表示しておいてください
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {SPEED_OPTIONS.map((option) => (
+          <Button
+            key={option.interval}
+            variant={frameInterval === option.interval ? 'primary' : 'secondary'}
+            size="small"
+            onClick={() => setFrameInterval(option.interval)}
+            className="flex-1"
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <Input
+        label="足りない番号だけ表示する"
+        placeholder="例: 3, 7, 12-15"
+        value={onlyText}
+        onChange={(e) => setOnlyText(e.target.value)}
+      />
+      <p className="text-sm text-text-secondary">
+        受け取る側に表示された「足りない番号」を入れると、その番号だけを繰り返します。
+        空にするとすべて表示します。
+      </p>
+    </div>
+  );
+}
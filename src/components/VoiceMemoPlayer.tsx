@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { VoiceMemo } from '../types';
+import { formatDuration } from '../lib/voiceMemos';
+import { useBlobSource } from '../hooks/useBlobSource';
+
+interface VoiceMemoPlayerProps {
+  memo: VoiceMemo;
+  // 編集画面では外せるようにする
+  onRemove?: () => void;
+}
+
+// 声のメモを大きなボタンで再生する
+export function VoiceMemoPlayer({ memo, onRemove }: VoiceMemoPlayerProps) {
+  const audioRef = useBlobSource<HTMLAudioElement>(memo.audio);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const handleToggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Voice memo playback error:', error));
+    } else {
+      // 途中で止めたら次は最初から
+      audio.pause();
+      audio.currentTime = 0;
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl border border-border bg-white">
+      <button
+        type="button"
+        onClick={handleToggle}
+        aria-label={isPlaying ? '止める' : '再生する'}
+        className={`w-16 h-16 shrink-0 rounded-full text-2xl text-white transition-colors ${
+          isPlaying ? 'bg-danger' : 'bg-primary'
+        }`}
+      >
+        {isPlaying ? '■' : '▶'}
+      </button>
+      <div className="flex-1 min-w-0">
+        <p className="text-lg font-bold text-text">
+          {isPlaying ? '再生中…' : format(new Date(memo.createdAt), 'M月d日 H:mm', { locale: ja })}
+        </p>
+        <p className="text-base text-text-secondary">{formatDuration(memo.durationMs)}</p>
+      </div>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label="この録音を外す"
+          className="p-2 text-xl text-text-secondary"
+        >
+          ✕
+        </button>
+      )}
+      <audio
+        ref={audioRef}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -1,52 +1,106 @@
-import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useRef, useEffect, type ReactNode } from 'react';
+
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface ToastOptions {
+  // 「元に戻す」などのボタン
+  action?: ToastAction;
+  // 表示時間（ミリ秒）。ボタン付きは押す時間を確保するため長めにする
+  duration?: number;
+}
 
 interface Toast {
   id: string;
   message: string;
   type: 'success' | 'error' | 'info';
+  action?: ToastAction;
 }
 
 interface ToastContextValue {
-  showToast: (message: string, type?: Toast['type']) => void;
+  showToast: (message: string, type?: Toast['type'], options?: ToastOptions) => void;
 }
 
+const DEFAULT_DURATION = 3000;
+const ACTION_DURATION = 8000;
+// 同時に表示する最大数（超えたら古いものから消す）
+const MAX_TOASTS = 3;
+
 const ToastContext = createContext<ToastContextValue | null>(null);
 
 export function ToastProvider({ children }: { children: ReactNode }) {
   const [toasts, setToasts] = useState<Toast[]>([]);
-
-  const showToast = useCallback((message: string, type: Toast['type'] = 'success') => {
-    const id = Math.random().toString(36).slice(2);
-    setToasts((prev) => [...prev, { id, message, type }]);
-
-    setTimeout(() => {
-      setToasts((prev) => prev.filter((t) => t.id !== id));
-    }, 3000);
-  }, []);
+  const timersRef = useRef(new Map<string, number>());
 
   const removeToast = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(id);
+    }
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
+  const showToast = useCallback(
+    (message: string, type: Toast['type'] = 'success', options: ToastOptions = {}) => {
+      const id = Math.random().toString(36).slice(2);
+      const duration = options.duration ?? (options.action ? ACTION_DURATION : DEFAULT_DURATION);
+
+      // 押し出された古い通知のタイマーはそのまま残り、後で空振りするだけ
+      setToasts((prev) => [...prev, { id, message, type, action: options.action }].slice(-MAX_TOASTS));
+
+      timersRef.current.set(id, window.setTimeout(() => removeToast(id), duration));
+    },
+    [removeToast]
+  );
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
   return (
     <ToastContext.Provider value={{ showToast }}>
       {children}
-      <div className="fixed bottom-4 left-4 right-4 z-50 flex flex-col gap-2">
+      {/* 読み上げソフトに通知が伝わるよう、領域は常に置いておく */}
+      <div
+        className="fixed bottom-4 left-4 right-4 z-50 flex flex-col gap-2"
+        aria-live="polite"
+        aria-atomic="false"
+      >
         {toasts.map((toast) => (
           <div
             key={toast.id}
+            role={toast.type === 'error' ? 'alert' : 'status'}
             onClick={() => removeToast(toast.id)}
             className={`
               p-4 rounded-xl shadow-lg text-white text-lg font-bold
+              flex items-center gap-3
               animate-[slideUp_0.3s_ease-out]
               ${toast.type === 'success' ? 'bg-success' : ''}
               ${toast.type === 'error' ? 'bg-danger' : ''}
               ${toast.type === 'info' ? 'bg-primary' : ''}
             `}
           >
-            {toast.type === 'success' && '✓ '}
-            {toast.type === 'error' && '✕ '}
-            {toast.message}
+            <span className="flex-1">
+              {toast.type === 'success' && '✓ '}
+              {toast.type === 'error' && '✕ '}
+              {toast.message}
+            </span>
+            {toast.action && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toast.action?.onClick();
+                  removeToast(toast.id);
+                }}
+                className="flex-none min-h-[44px] px-4 py-2 rounded-lg bg-white text-text text-base font-bold active:bg-gray-100"
+              >
+                {toast.action.label}
+              </button>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+
+// Blob（保存した写真や録音）を <img> や <audio> で再生・表示する
+// 使わなくなったら一時的なURLを破棄してメモリを返す
+export function useBlobSource<T extends HTMLImageElement | HTMLAudioElement>(blob: Blob) {
+  const elementRef = useRef<T>(null);
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+    const url = URL.createObjectURL(blob);
+    element.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  return elementRef;
+}
@@ -0,0 +1,62 @@
+import { useState, useCallback } from 'react';
+import type { PointerEvent, KeyboardEvent } from 'react';
+
+// 並べ替えるそれぞれの行につける属性（指の下にある行を探すのに使う）
+const ITEM_ATTRIBUTE = 'data-reorder-id';
+
+const moveItem = (ids: string[], id: string, toIndex: number): string[] => {
+  const rest = ids.filter((other) => other !== id);
+  const clamped = Math.max(0, Math.min(rest.length, toIndex));
+  return [...rest.slice(0, clamped), id, ...rest.slice(clamped)];
+};
+
+// つまみを指（マウス）でつかんで上下に動かし、並べ替える
+// 指を離したときに onReorder を呼ぶ。つまみにフォーカスがあれば ↑↓ キーでも動かせる
+export function useDragReorder(ids: string[], onReorder: (orderedIds: string[]) => void) {
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  const order = dragOrder ?? ids;
+
+  const itemProps = useCallback((id: string) => ({ [ITEM_ATTRIBUTE]: id }), []);
+
+  const handleProps = useCallback(
+    (id: string) => ({
+      onPointerDown: (e: PointerEvent<HTMLElement>) => {
+        e.preventDefault();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraggingId(id);
+        setDragOrder(ids);
+      },
+      onPointerMove: (e: PointerEvent<HTMLElement>) => {
+        if (draggingId !== id || !dragOrder) return;
+        const over = document
+          .elementFromPoint(e.clientX, e.clientY)
+          ?.closest(`[${ITEM_ATTRIBUTE}]`)
+          ?.getAttribute(ITEM_ATTRIBUTE);
+        if (!over || over === id) return;
+        setDragOrder(moveItem(dragOrder, id, dragOrder.indexOf(over)));
+      },
+      onPointerUp: () => {
+        if (dragOrder && dragOrder.join() !== ids.join()) onReorder(dragOrder);
+        setDraggingId(null);
+        setDragOrder(null);
+      },
+      onPointerCancel: () => {
+        setDraggingId(null);
+        setDragOrder(null);
+      },
+      onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+        if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+        e.preventDefault();
+        const index = ids.indexOf(id);
+        const next = moveItem(ids, id, e.key === 'ArrowUp' ? index - 1 : index + 1);
+        if (next.join() !== ids.join()) onReorder(next);
+      },
+      style: { touchAction: 'none' } as const,
+    }),
+    [ids, dragOrder, draggingId, onReorder]
+  );
+
+  return { order, draggingId, itemProps, handleProps };
+}
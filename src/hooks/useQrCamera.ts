@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { createQrReader } from '../lib/qr';
+
+// 読み取る間隔（端末への負担を抑える）
+const SCAN_INTERVAL_MS = 250;
+
+// 背面カメラを起動してQRコードを読み取り続ける
+// onText が true を返したら読み取りをやめる。enabled が false の間はカメラを止める
+export function useQrCamera(onText: (text: string) => boolean | void, enabled = true) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // カメラを起動し直さないよう、最新の onText を参照で持つ
+  const onTextRef = useRef(onText);
+  useEffect(() => {
+    onTextRef.current = onText;
+  }, [onText]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let stream: MediaStream | null = null;
+    let timerId: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    const read = createQrReader();
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      const text = await read(video).catch(() => null);
+      if (stopped) return;
+      if (text && onTextRef.current(text) === true) return;
+      timerId = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('この端末ではカメラを使えません');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+      } catch (cameraError) {
+        setError(
+          cameraError instanceof Error && cameraError.name === 'NotAllowedError'
+            ? 'カメラの使用が許可されていません。ブラウザの設定で許可してください'
+            : 'カメラを起動できませんでした'
+        );
+        return;
+      }
+      if (stopped || !videoRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play().catch(() => {});
+      scan();
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timerId) clearTimeout(timerId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [enabled]);
+
+  return { videoRef, error };
+}
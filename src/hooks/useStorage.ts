@@ -0,0 +1,90 @@
+import { useSyncExternalStore } from 'react';
+import type {
+  Place,
+  Tab,
+  AppSettings,
+  PlaceRevision,
+  OutboxEntry,
+  SyncState,
+  Visit,
+  VisitStats,
+  PlacePhoto,
+  VoiceMemo,
+} from '../types';
+import {
+  subscribe,
+  getPlaces,
+  getTabs,
+  getCustomTabs,
+  getSettings,
+  getDeletedPlaces,
+  getDeletedTabs,
+  getQuarantine,
+  getPlacePhotos,
+  getPlaceVoiceMemos,
+  getPlaceRevisions,
+  getOutbox,
+  getSyncState,
+  getVisits,
+  getVisitStats,
+} from '../lib/storage';
+import type { QuarantinedRecord } from '../lib/validation';
+
+// 保存データを購読するフック
+// storage.ts の変更がすぐ全画面に反映される（getXxx は変更がなければ同じ配列を返す）
+
+export function usePlaces(): Place[] {
+  return useSyncExternalStore(subscribe, getPlaces);
+}
+
+export function useTabs(): Tab[] {
+  return useSyncExternalStore(subscribe, getTabs);
+}
+
+export function useCustomTabs(): Tab[] {
+  return useSyncExternalStore(subscribe, getCustomTabs);
+}
+
+export function useSettings(): AppSettings {
+  return useSyncExternalStore(subscribe, getSettings);
+}
+
+export function useDeletedPlaces(): Place[] {
+  return useSyncExternalStore(subscribe, getDeletedPlaces);
+}
+
+export function useDeletedTabs(): Tab[] {
+  return useSyncExternalStore(subscribe, getDeletedTabs);
+}
+
+export function useQuarantine(): QuarantinedRecord[] {
+  return useSyncExternalStore(subscribe, getQuarantine);
+}
+
+export function usePlaceRevisions(placeId: string): PlaceRevision[] {
+  return useSyncExternalStore(subscribe, () => getPlaceRevisions(placeId));
+}
+
+export function useOutbox(): OutboxEntry[] {
+  return useSyncExternalStore(subscribe, getOutbox);
+}
+
+export function useSyncState(): SyncState {
+  return useSyncExternalStore(subscribe, getSyncState);
+}
+
+export function useVisits(): Visit[] {
+  return useSyncExternalStore(subscribe, getVisits);
+}
+
+export function useVisitStats(): Record<string, VisitStats> {
+  return useSyncExternalStore(subscribe, getVisitStats);
+}
+
+export function usePlacePhotos(placeId: string): PlacePhoto[] {
+  return useSyncExternalStore(subscribe, () => getPlacePhotos(placeId));
+}
+
+export function usePlaceVoiceMemos(placeId: string): VoiceMemo[] {
+  return useSyncExternalStore(subscribe, () => getPlaceVoiceMemos(placeId));
+}
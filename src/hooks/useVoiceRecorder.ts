@@ -0,0 +1,70 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { VoiceMemo } from '../types';
+import { createVoiceMemo } from '../lib/voiceMemos';
+
+// マイクの声を録音する。stop で録音が終わると onRecorded に声のメモを渡す
+export function useVoiceRecorder(onRecorded: (memo: VoiceMemo) => void) {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  // マイクの許可を待つ間に画面を離れたかどうか
+  const unmountedRef = useRef(false);
+  // 録音し直さなくても最新の onRecorded を呼べるよう、参照で持つ
+  const onRecordedRef = useRef(onRecorded);
+  useEffect(() => {
+    onRecordedRef.current = onRecorded;
+  }, [onRecorded]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error('お使いのブラウザは録音に対応していません');
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      throw new Error('マイクの使用が許可されていません');
+    }
+    // 許可を待つ間に画面を離れていたら、録音を始めずにマイクを止める
+    if (unmountedRef.current) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      if (chunks.length === 0) return;
+      const audio = new Blob(chunks, { type: recorder.mimeType });
+      onRecordedRef.current(createVoiceMemo(audio, Date.now() - startedAt));
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  }, []);
+
+  // 画面を離れたら録音を捨ててマイクを止める
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      const recorder = recorderRef.current;
+      if (!recorder) return;
+      recorder.onstop = null;
+      recorder.stream.getTracks().forEach((track) => track.stop());
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+  }, []);
+
+  return { start, stop };
+}
@@ -0,0 +1,137 @@
+import type { StoredData, ImportMode } from './storage';
+import { getAllData, getSettings, importData } from './storage';
+import { SCHEMA_VERSION, migrateRecords } from './migrations';
+import type { AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+import { downloadFile, timestampedFilename } from './file';
+import { encryptText, decryptText, isEncryptedEnvelope } from './crypto';
+import { isDateString } from './validation';
+
+export const BACKUP_FORMAT = 'kokomemo-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: StoredData;
+}
+
+export interface BackupSummary {
+  exportedAt: string;
+  placeCount: number;
+  customTabCount: number;
+  searchHistoryCount: number;
+  visitCount: number;
+}
+
+// 同期の接続先とトークンはファイルに残さない（暗号化しないバックアップにトークンが平文で残るため）
+export function createBackup(): BackupFile {
+  const data = getAllData();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: { ...data, settings: { ...data.settings, syncEndpoint: '', syncToken: '' } },
+  };
+}
+
+// passphrase を渡すと暗号化したファイルを保存する
+export async function downloadBackup(passphrase?: string): Promise<void> {
+  const text = JSON.stringify(createBackup(), null, 2);
+  if (passphrase) {
+    const envelope = await encryptText(text, passphrase);
+    downloadFile(
+      timestampedFilename('kokomemo-backup-encrypted', 'json'),
+      JSON.stringify(envelope, null, 2),
+      'application/json'
+    );
+  } else {
+    downloadFile(timestampedFilename('kokomemo-backup', 'json'), text, 'application/json');
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// パスワード付きのバックアップか（復元前にパスワードを尋ねるため）
+export function isEncryptedBackup(text: string): boolean {
+  try {
+    return isEncryptedEnvelope(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+export async function decryptBackup(text: string, passphrase: string): Promise<BackupFile> {
+  const envelope: unknown = JSON.parse(text);
+  if (!isEncryptedEnvelope(envelope)) {
+    throw new Error('パスワード付きのバックアップファイルではありません');
+  }
+  return parseBackup(await decryptText(envelope, passphrase));
+}
+
+// ファイルの中身を検証し、現在のスキーマに合わせて返す
+// 問題があれば利用者向けのメッセージ付きで例外を投げる
+export function parseBackup(text: string): BackupFile {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('バックアップファイルを読み込めませんでした');
+  }
+
+  if (!isObject(json) || json.format !== BACKUP_FORMAT) {
+    throw new Error('ここメモのバックアップファイルではありません');
+  }
+  if (typeof json.version !== 'number' || json.version > BACKUP_VERSION) {
+    throw new Error('新しいバージョンのアプリで作成されたバックアップです。アプリを更新してください');
+  }
+
+  const data = json.data;
+  if (!isObject(data) || !Array.isArray(data.places) || !Array.isArray(data.tabs)) {
+    throw new Error('バックアップファイルが壊れています');
+  }
+
+  const schemaVersion = typeof json.schemaVersion === 'number' ? json.schemaVersion : 0;
+  const migrated = migrateRecords({ places: data.places, tabs: data.tabs }, schemaVersion);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: json.version,
+    schemaVersion: SCHEMA_VERSION,
+    // 手で書き換えたファイルなどで日時として読めなければ、保存日時は出さない
+    exportedAt: isDateString(json.exportedAt) ? json.exportedAt : '',
+    data: {
+      places: migrated.places,
+      tabs: migrated.tabs,
+      searchHistory: Array.isArray(data.searchHistory) ? data.searchHistory : [],
+      settings: isObject(data.settings)
+        ? { ...DEFAULT_SETTINGS, ...(data.settings as Partial<AppSettings>) }
+        : DEFAULT_SETTINGS,
+      // 訪問の記録がない古いバックアップもある
+      visits: Array.isArray(data.visits) ? data.visits : [],
+    },
+  };
+}
+
+export function summarizeBackup(backup: BackupFile): BackupSummary {
+  return {
+    exportedAt: backup.exportedAt,
+    placeCount: backup.data.places.length,
+    customTabCount: backup.data.tabs.filter((t) => t.isCustom).length,
+    searchHistoryCount: backup.data.searchHistory.length,
+    visitCount: backup.data.visits.length,
+  };
+}
+
+// 同期の設定は今のものを使い続ける（接続先を変えるときは configureSync を通す）
+export function restoreBackup(backup: BackupFile, mode: ImportMode): Promise<void> {
+  const { syncEndpoint, syncToken } = getSettings();
+  return importData(
+    { ...backup.data, settings: { ...backup.data.settings, syncEndpoint, syncToken } },
+    mode
+  );
+}
@@ -0,0 +1,28 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ChecklistItem } from '../types';
+
+// 場所ごとの持ち物・やること（例: 病院なら診察券・保険証・お薬手帳）
+
+export function createChecklistItem(text: string): ChecklistItem {
+  return { id: uuidv4(), text, checked: false };
+}
+
+export function toggleChecklistItem(items: ChecklistItem[], id: string): ChecklistItem[] {
+  return items.map((item) => (item.id === id ? { ...item, checked: !item.checked } : item));
+}
+
+export function uncheckAll(items: ChecklistItem[]): ChecklistItem[] {
+  return items.map((item) => (item.checked ? { ...item, checked: false } : item));
+}
+
+// 並べ替えたIDの順に並べ直す
+export function reorderChecklist(items: ChecklistItem[], orderedIds: string[]): ChecklistItem[] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  return orderedIds
+    .map((id) => byId.get(id))
+    .filter((item): item is ChecklistItem => !!item);
+}
+
+export function countChecked(items: ChecklistItem[]): number {
+  return items.filter((item) => item.checked).length;
+}
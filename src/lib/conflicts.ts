@@ -0,0 +1,122 @@
+import type { Place } from '../types';
+
+// 編集画面で扱う項目（別の画面での変更と比べる対象）
+export const PLACE_FIELDS = [
+  'name',
+  'memo',
+  'address',
+  'postalCode',
+  'phoneNumber',
+  'latitude',
+  'longitude',
+  'tagIds',
+] as const;
+
+export type PlaceField = (typeof PLACE_FIELDS)[number];
+
+export interface PlaceFields {
+  name: string;
+  memo: string;
+  address: string;
+  postalCode: string;
+  phoneNumber: string;
+  latitude: number;
+  longitude: number;
+  tagIds: string[];
+}
+
+export const PLACE_FIELD_LABELS: Record<PlaceField, string> = {
+  name: '登録名',
+  memo: 'メモ',
+  address: '住所',
+  postalCode: '郵便番号',
+  phoneNumber: '電話番号',
+  latitude: '位置',
+  longitude: '位置',
+  tagIds: 'カテゴリ',
+};
+
+// タグは順番を問わず、同じものがついていれば同じとみなす
+export function isSameFieldValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+  }
+  return a === b;
+}
+
+export function pickPlaceFields(place: Place): PlaceFields {
+  return {
+    name: place.name,
+    memo: place.memo,
+    address: place.address,
+    postalCode: place.postalCode || '',
+    phoneNumber: place.phoneNumber || '',
+    latitude: place.latitude,
+    longitude: place.longitude,
+    tagIds: place.tagIds,
+  };
+}
+
+export function changedFields(a: PlaceFields, b: PlaceFields): PlaceField[] {
+  return PLACE_FIELDS.filter((field) => !isSameFieldValue(a[field], b[field]));
+}
+
+// 3者マージ: 自分が変えた項目は自分の内容、それ以外は相手の内容を使う
+// 両方が同じ項目を変えた場合は自分の内容を優先する
+export function mergePlaceFields(
+  base: PlaceFields,
+  mine: PlaceFields,
+  theirs: PlaceFields
+): PlaceFields {
+  const mineChanged = new Set(changedFields(base, mine));
+  const merged = { ...theirs };
+  PLACE_FIELDS.forEach((field) => {
+    if (mineChanged.has(field)) {
+      (merged as Record<PlaceField, unknown>)[field] = mine[field];
+    }
+  });
+  // 緯度と経度は組で扱う
+  if (mineChanged.has('latitude') || mineChanged.has('longitude')) {
+    merged.latitude = mine.latitude;
+    merged.longitude = mine.longitude;
+  }
+  return merged;
+}
+
+// 編集画面の外（詳細画面のチェック・ナビ開始・「今日は休む」・同期）でもよく変わる項目
+// 変わるたびにどちらを残すか尋ねず、編集画面で変えていなければ最新の内容を使う
+export const LIVE_PLACE_FIELDS = [
+  'checklist',
+  'resetChecklistOnNavigate',
+  'plannedAt',
+  'reminderMinutesBefore',
+  'recurrence',
+] as const;
+
+export type LivePlaceFields = Pick<Place, (typeof LIVE_PLACE_FIELDS)[number]>;
+
+// 編集画面で保存するときと同じ形にそろえる（空のチェックリストは持たない、など）
+export function pickLivePlaceFields(place: Place): LivePlaceFields {
+  const hasChecklist = !!place.checklist && place.checklist.length > 0;
+  return {
+    checklist: hasChecklist ? place.checklist : undefined,
+    resetChecklistOnNavigate: hasChecklist && place.resetChecklistOnNavigate ? true : undefined,
+    plannedAt: place.plannedAt,
+    reminderMinutesBefore: place.plannedAt ? place.reminderMinutesBefore : undefined,
+    recurrence: place.recurrence,
+  };
+}
+
+export function mergeLivePlaceFields(
+  base: LivePlaceFields,
+  mine: LivePlaceFields,
+  latest: LivePlaceFields
+): LivePlaceFields {
+  const merged = { ...mine };
+  LIVE_PLACE_FIELDS.forEach((field) => {
+    if (JSON.stringify(base[field]) === JSON.stringify(mine[field])) {
+      (merged as Record<keyof LivePlaceFields, unknown>)[field] = latest[field];
+    }
+  });
+  return merged;
+}
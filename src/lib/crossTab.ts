@@ -0,0 +1,48 @@
+import type {
+  Place,
+  Tab,
+  SearchHistory,
+  AppSettings,
+  PlaceHistory,
+  OutboxEntry,
+  SyncState,
+  Visit,
+  PlacePhoto,
+  VoiceMemo,
+} from '../types';
+import type { QuarantinedRecord } from './validation';
+
+// 同じ端末で開いている別のタブ・ウィンドウへ変更を知らせる
+// IndexedDBへの書き込みが終わってから送るので、受け取った側は内容をそのまま使える
+export type CrossTabMessage =
+  | { kind: 'places'; changed: Place[]; removedIds: string[] }
+  | { kind: 'tabs'; changed: Tab[]; removedIds: string[] }
+  | { kind: 'searchHistory'; searchHistory: SearchHistory[] }
+  | { kind: 'settings'; settings: AppSettings }
+  | { kind: 'quarantine'; quarantine: QuarantinedRecord[] }
+  | { kind: 'revisions'; changed: PlaceHistory[]; removedPlaceIds: string[] }
+  | { kind: 'outbox'; changed: OutboxEntry[]; removedKeys: string[] }
+  | { kind: 'syncState'; syncState: SyncState }
+  | { kind: 'visits'; changed: Visit[]; removedIds: string[] }
+  | { kind: 'photos'; changed: PlacePhoto[]; removedIds: string[] }
+  | { kind: 'voiceMemos'; changed: VoiceMemo[]; removedIds: string[] }
+  // 復元などで全体が入れ替わったときは読み込み直してもらう
+  | { kind: 'reload' };
+
+const CHANNEL_NAME = 'kokomemo-sync';
+
+let channel: BroadcastChannel | null = null;
+
+export function listenCrossTab(handler: (message: CrossTabMessage) => void): void {
+  if (typeof BroadcastChannel === 'undefined' || channel) return;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<CrossTabMessage>) => handler(event.data);
+}
+
+export function postCrossTabMessage(message: CrossTabMessage): void {
+  try {
+    channel?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to notify other tabs:', error);
+  }
+}
@@ -0,0 +1,130 @@
+// パスワードによる暗号化（WebCrypto）
+// PBKDF2でパスワードから鍵を作り、AES-GCMで暗号化する
+// 復号に必要なパラメータ（ソルト・反復回数・IV）はすべてファイルの見出しに記録する
+
+export const ENCRYPTED_FORMAT = 'kokomemo-encrypted';
+export const ENCRYPTED_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: 'AES-GCM';
+    length: 256;
+    iv: string;
+  };
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 大きなデータでも引数の上限を超えないよう分けて変換する
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+function assertCryptoAvailable(): void {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('この環境では暗号化を使えません（https で開いてください）');
+  }
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptText(plaintext: string, passphrase: string): Promise<EncryptedEnvelope> {
+  assertCryptoAvailable();
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: ENCRYPTED_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', length: 256, iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return isObject(value) && value.format === ENCRYPTED_FORMAT;
+}
+
+export async function decryptText(envelope: EncryptedEnvelope, passphrase: string): Promise<string> {
+  assertCryptoAvailable();
+  const { kdf, cipher } = envelope;
+  if (
+    typeof envelope.version !== 'number' ||
+    envelope.version > ENCRYPTED_VERSION ||
+    !isObject(kdf) ||
+    kdf.name !== 'PBKDF2' ||
+    kdf.hash !== 'SHA-256' ||
+    typeof kdf.iterations !== 'number' ||
+    !isObject(cipher) ||
+    cipher.name !== 'AES-GCM'
+  ) {
+    throw new Error('対応していない暗号化の形式です');
+  }
+
+  let salt: Uint8Array<ArrayBuffer>;
+  let iv: Uint8Array<ArrayBuffer>;
+  let ciphertext: Uint8Array<ArrayBuffer>;
+  try {
+    salt = fromBase64(kdf.salt);
+    iv = fromBase64(cipher.iv);
+    ciphertext = fromBase64(envelope.ciphertext);
+  } catch {
+    throw new Error('ファイルが壊れています');
+  }
+
+  const key = await deriveKey(passphrase, salt, kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCMではパスワード違いと改ざんを区別できない
+    throw new Error('パスワードが違います（またはファイルが壊れています）');
+  }
+}
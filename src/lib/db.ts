@@ -0,0 +1,151 @@
+// IndexedDBの薄いラッパー
+// ストアを追加するときは DB_VERSION を上げ、onupgradeneeded に分岐を足す
+
+const DB_NAME = 'kokomemo';
+const DB_VERSION = 6;
+
+export const STORES = {
+  PLACES: 'places',
+  TABS: 'tabs',
+  META: 'meta',
+  REVISIONS: 'revisions',
+  OUTBOX: 'outbox',
+  VISITS: 'visits',
+  PHOTOS: 'photos',
+  VOICE_MEMOS: 'voiceMemos',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.PLACES, { keyPath: 'id' });
+        db.createObjectStore(STORES.TABS, { keyPath: 'id' });
+        // 設定・検索履歴・スキーマバージョンなどの単一値
+        db.createObjectStore(STORES.META);
+      }
+      if (event.oldVersion < 2) {
+        // 場所ごとの変更履歴（1場所1レコード）
+        db.createObjectStore(STORES.REVISIONS, { keyPath: 'placeId' });
+      }
+      if (event.oldVersion < 3) {
+        // 同期サーバーへ送る前の変更
+        db.createObjectStore(STORES.OUTBOX, { keyPath: 'key' });
+      }
+      if (event.oldVersion < 4) {
+        // 訪問の記録（1回1レコード）
+        db.createObjectStore(STORES.VISITS, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 5) {
+        // 場所の写真（1枚1レコード、画像はBlobのまま持つ）
+        db.createObjectStore(STORES.PHOTOS, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 6) {
+        // 場所の声のメモ（1件1レコード、録音はBlobのまま持つ）
+        db.createObjectStore(STORES.VOICE_MEMOS, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // 別タブで新しいバージョンが開かれたら接続を閉じて更新を妨げない
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another tab'));
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function getValue<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
+
+// keyPathを持つストアにまとめて書き込む（1トランザクション）
+export async function putRecords(store: StoreName, records: unknown[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  records.forEach((record) => objectStore.put(record));
+  await transactionDone(tx);
+}
+
+export async function putValue(store: StoreName, key: IDBValidKey, value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value, key);
+  await transactionDone(tx);
+}
+
+export async function deleteRecords(store: StoreName, keys: IDBValidKey[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  keys.forEach((key) => objectStore.delete(key));
+  await transactionDone(tx);
+}
+
+export async function clearStore(store: StoreName): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  await transactionDone(tx);
+}
+
+// いくつかのストアの中身を1トランザクションで入れ替える（途中で失敗したらすべて元のまま）
+export async function writeStores(
+  writes: { store: StoreName; records: unknown[]; clear?: boolean }[]
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(writes.map((w) => w.store), 'readwrite');
+  writes.forEach(({ store, records, clear }) => {
+    const objectStore = tx.objectStore(store);
+    if (clear) objectStore.clear();
+    records.forEach((record) => objectStore.put(record));
+  });
+  await transactionDone(tx);
+}
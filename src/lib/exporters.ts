@@ -0,0 +1,196 @@
+import type { Place, Tab } from '../types';
+import { downloadFile, timestampedFilename } from './file';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ExportFilter {
+  tagId?: string;
+  // 登録日（createdAt）の範囲。to はその日の終わりまでを含む
+  from?: Date;
+  to?: Date;
+}
+
+export function filterPlacesForExport(places: Place[], filter: ExportFilter): Place[] {
+  return places.filter((place) => {
+    if (filter.tagId && filter.tagId !== 'all' && !place.tagIds.includes(filter.tagId)) {
+      return false;
+    }
+    const created = new Date(place.createdAt).getTime();
+    if (filter.from && created < filter.from.getTime()) return false;
+    if (filter.to && created > filter.to.getTime()) return false;
+    return true;
+  });
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// カーナビ等ではメモ欄しか表示されないことが多いので、住所や電話番号もまとめて入れる
+const describePlace = (place: Place): string =>
+  [
+    place.memo,
+    place.postalCode && `〒${place.postalCode}`,
+    place.address,
+    place.phoneNumber && `TEL ${place.phoneNumber}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+// タグが複数あれば「、」でつなぐ
+const tagNames = (tabs: Tab[], tagIds: string[]): string =>
+  tagIds
+    .map((tagId) => tabs.find((t) => t.id === tagId)?.name)
+    .filter(Boolean)
+    .join('、');
+
+export function toGpx(places: Place[], tabs: Tab[] = []): string {
+  const waypoints = places
+    .map((place) => {
+      const category = tagNames(tabs, place.tagIds);
+      return [
+        `  <wpt lat="${place.latitude}" lon="${place.longitude}">`,
+        `    <time>${escapeXml(place.createdAt)}</time>`,
+        `    <name>${escapeXml(place.name)}</name>`,
+        place.address && `    <cmt>${escapeXml(place.address)}</cmt>`,
+        `    <desc>${escapeXml(describePlace(place))}</desc>`,
+        category && `    <type>${escapeXml(category)}</type>`,
+        '  </wpt>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="KokoMemo" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    '    <name>ここメモ</name>',
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    waypoints,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+export function toKml(places: Place[], tabs: Tab[] = []): string {
+  const placemarks = places
+    .map((place) => {
+      const extendedData = [
+        ['memo', place.memo],
+        ['postalCode', place.postalCode],
+        ['category', tagNames(tabs, place.tagIds)],
+        ['createdAt', place.createdAt],
+      ]
+        .filter(([, value]) => value)
+        .map(
+          ([name, value]) =>
+            `        <Data name="${name}"><value>${escapeXml(value as string)}</value></Data>`
+        )
+        .join('\n');
+
+      return [
+        '    <Placemark>',
+        `      <name>${escapeXml(place.name)}</name>`,
+        place.address && `      <address>${escapeXml(place.address)}</address>`,
+        place.phoneNumber && `      <phoneNumber>${escapeXml(place.phoneNumber)}</phoneNumber>`,
+        `      <description>${escapeXml(describePlace(place))}</description>`,
+        '      <ExtendedData>',
+        extendedData,
+        '      </ExtendedData>',
+        '      <Point>',
+        // KMLは「経度,緯度」の順
+        `        <coordinates>${place.longitude},${place.latitude}</coordinates>`,
+        '      </Point>',
+        '    </Placemark>',
+      ]
+        .filter(Boolean)
+        .join('\n');
+    })
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>ここメモ</name>',
+    placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function toGeoJson(places: Place[], tabs: Tab[] = []): string {
+  const collection = {
+    type: 'FeatureCollection',
+    features: places.map((place) => ({
+      type: 'Feature',
+      id: place.id,
+      geometry: {
+        type: 'Point',
+        // GeoJSONも「経度,緯度」の順
+        coordinates: [place.longitude, place.latitude],
+      },
+      properties: {
+        name: place.name,
+        memo: place.memo,
+        address: place.address,
+        postalCode: place.postalCode ?? null,
+        phoneNumber: place.phoneNumber ?? null,
+        category: tagNames(tabs, place.tagIds) || null,
+        createdAt: place.createdAt,
+        updatedAt: place.updatedAt,
+      },
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  {
+    label: string;
+    description: string;
+    extension: string;
+    mimeType: string;
+    serialize: (places: Place[], tabs: Tab[]) => string;
+  }
+> = {
+  gpx: {
+    label: 'GPX',
+    description: 'カーナビ・登山用GPSなど',
+    extension: 'gpx',
+    mimeType: 'application/gpx+xml',
+    serialize: toGpx,
+  },
+  kml: {
+    label: 'KML',
+    description: 'Google Earth・マイマップなど',
+    extension: 'kml',
+    mimeType: 'application/vnd.google-earth.kml+xml',
+    serialize: toKml,
+  },
+  geojson: {
+    label: 'GeoJSON',
+    description: 'パソコンの地図ソフト（QGISなど）',
+    extension: 'geojson',
+    mimeType: 'application/geo+json',
+    serialize: toGeoJson,
+  },
+};
+
+export function downloadPlaces(places: Place[], tabs: Tab[], format: ExportFormat): void {
+  const { extension, mimeType, serialize } = EXPORT_FORMATS[format];
+  downloadFile(
+    timestampedFilename('kokomemo-places', extension),
+    serialize(places, tabs),
+    mimeType
+  );
+}
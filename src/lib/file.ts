@@ -0,0 +1,20 @@
+import { format } from 'date-fns';
+
+// ファイルとして端末に保存する
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Safariでダウンロードが始まる前に破棄されないよう少し待つ
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// 例: kokomemo-backup-20260101-0930.json
+export function timestampedFilename(prefix: string, extension: string, date = new Date()): string {
+  return `${prefix}-${format(date, 'yyyyMMdd-HHmm')}.${extension}`;
+}
@@ -0,0 +1,314 @@
+import type { Place } from '../types';
+import { calculateDistance, parseGoogleMapsUrl } from './maps';
+import { hasUsableCoordinates } from './validation';
+
+// 取り込み前の1件分。緯度経度がない行は住所から調べてから登録する
+export interface ImportCandidate {
+  key: string;
+  name: string;
+  address: string;
+  memo: string;
+  postalCode?: string;
+  phoneNumber?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export type ImportFileFormat = 'takeout' | 'geojson' | 'kml' | 'csv';
+
+export interface ImportParseResult {
+  format: ImportFileFormat;
+  candidates: ImportCandidate[];
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFileFormat, string> = {
+  takeout: 'Google マップの保存済みリスト（Takeout）',
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  csv: 'CSV',
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toCoordinate = (value: unknown): number | undefined => {
+  const num = typeof value === 'number' ? value : parseFloat(str(value));
+  return Number.isFinite(num) ? num : undefined;
+};
+
+// 0,0 は「位置不明」として扱う（Takeoutでは位置が無いとき0,0になる）
+const withCoordinates = (
+  candidate: Omit<ImportCandidate, 'latitude' | 'longitude'>,
+  latitude?: number,
+  longitude?: number
+): ImportCandidate => {
+  return hasUsableCoordinates(latitude, longitude)
+    ? { ...candidate, latitude, longitude }
+    : candidate;
+};
+
+// GeoJSON（Google Takeoutの「保存済み」を含む）
+function parseGeoJson(json: JsonObject): ImportParseResult {
+  const features = Array.isArray(json.features) ? json.features.filter(isObject) : [];
+  let isTakeout = false;
+
+  const candidates = features.map((feature, index) => {
+    const properties = isObject(feature.properties) ? feature.properties : {};
+    const geometry = isObject(feature.geometry) ? feature.geometry : {};
+    const coordinates = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+
+    // Takeoutは新旧2種類の形式がある
+    // 旧: properties.Title / properties.Location.{Address, Business Name, Geo Coordinates}
+    // 新: properties.location.{name, address} / properties.google_maps_url
+    const oldLocation = isObject(properties.Location) ? properties.Location : null;
+    const newLocation = isObject(properties.location) ? properties.location : null;
+    const mapsUrl = str(properties['Google Maps URL']) || str(properties.google_maps_url);
+    if (oldLocation || newLocation || mapsUrl) isTakeout = true;
+
+    const name =
+      str(properties.Title) ||
+      str(oldLocation?.['Business Name']) ||
+      str(newLocation?.name) ||
+      str(properties.name) ||
+      str(properties.title) ||
+      str(properties.Name);
+    const address =
+      str(oldLocation?.Address) || str(newLocation?.address) || str(properties.address);
+    const memo =
+      str(properties.Comment) ||
+      str(properties.Note) ||
+      str(properties.memo) ||
+      str(properties.description);
+
+    let latitude = toCoordinate(coordinates[1]);
+    let longitude = toCoordinate(coordinates[0]);
+    const geoCoordinates = isObject(oldLocation?.['Geo Coordinates'])
+      ? (oldLocation['Geo Coordinates'] as JsonObject)
+      : null;
+    if ((!latitude || !longitude) && geoCoordinates) {
+      latitude = toCoordinate(geoCoordinates.Latitude);
+      longitude = toCoordinate(geoCoordinates.Longitude);
+    }
+    if ((!latitude || !longitude) && mapsUrl) {
+      const fromUrl = parseGoogleMapsUrl(mapsUrl);
+      latitude = fromUrl?.latitude;
+      longitude = fromUrl?.longitude;
+    }
+
+    return withCoordinates(
+      {
+        key: `row-${index}`,
+        name: name || address,
+        address,
+        memo,
+        postalCode: str(properties.postalCode) || undefined,
+        phoneNumber: str(properties.phoneNumber) || undefined,
+      },
+      latitude,
+      longitude
+    );
+  });
+
+  return { format: isTakeout ? 'takeout' : 'geojson', candidates };
+}
+
+function parseKml(text: string): ImportParseResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('KMLファイルを読み込めませんでした');
+  }
+
+  const childText = (element: Element, tagName: string): string =>
+    element.getElementsByTagName(tagName)[0]?.textContent?.trim() || '';
+
+  const placemarks = Array.from(doc.getElementsByTagName('Placemark'));
+  const candidates = placemarks.map((placemark, index) => {
+    // ここメモが書き出したKMLは ExtendedData にメモ・郵便番号を持つ
+    const data: Record<string, string> = {};
+    Array.from(placemark.getElementsByTagName('Data')).forEach((element) => {
+      const name = element.getAttribute('name');
+      if (name) data[name] = childText(element, 'value');
+    });
+
+    const [longitude, latitude] = childText(placemark, 'coordinates')
+      .split(/\s+/)[0]
+      .split(',')
+      .map((value) => toCoordinate(value));
+    const address = childText(placemark, 'address');
+
+    return withCoordinates(
+      {
+        key: `row-${index}`,
+        name: childText(placemark, 'name') || address,
+        address,
+        memo: data.memo ?? childText(placemark, 'description'),
+        postalCode: data.postalCode || undefined,
+        phoneNumber: childText(placemark, 'phoneNumber') || undefined,
+      },
+      latitude,
+      longitude
+    );
+  });
+
+  return { format: 'kml', candidates };
+}
+
+// ダブルクォートで囲まれた値（カンマ・改行を含む）に対応したCSVの分割
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+// 見出し行の名前 → 項目（Takeoutの「保存済み」CSVは Title, Note, URL）
+const CSV_HEADER_ALIASES: Record<string, string[]> = {
+  name: ['name', 'title', '名前', '名称', '場所'],
+  address: ['address', '住所'],
+  latitude: ['lat', 'latitude', '緯度'],
+  longitude: ['lng', 'lon', 'long', 'longitude', '経度'],
+  memo: ['memo', 'note', 'comment', 'description', 'メモ'],
+  postalCode: ['postalcode', 'zip', '郵便番号'],
+  phoneNumber: ['phone', 'phonenumber', 'tel', '電話番号'],
+  url: ['url'],
+};
+
+function parseCsv(text: string): ImportParseResult {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return { format: 'csv', candidates: [] };
+
+  const header = rows[0].map((value) => value.trim().toLowerCase().replace(/[\s_-]/g, ''));
+  const columns: Record<string, number> = {};
+  Object.entries(CSV_HEADER_ALIASES).forEach(([field, aliases]) => {
+    const index = header.findIndex((h) => aliases.includes(h));
+    if (index !== -1) columns[field] = index;
+  });
+
+  // 見出し行がなければ name,address,lat,lng,memo の順とみなす
+  const hasHeader = columns.name !== undefined;
+  const layout = hasHeader
+    ? columns
+    : { name: 0, address: 1, latitude: 2, longitude: 3, memo: 4 };
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const candidates = dataRows.map((row, index) => {
+    const get = (field: string) =>
+      layout[field] !== undefined ? (row[layout[field]] || '').trim() : '';
+
+    let latitude = toCoordinate(get('latitude'));
+    let longitude = toCoordinate(get('longitude'));
+    let name = get('name');
+    if ((latitude === undefined || longitude === undefined) && get('url')) {
+      const fromUrl = parseGoogleMapsUrl(get('url'));
+      latitude = fromUrl?.latitude;
+      longitude = fromUrl?.longitude;
+      name = name || fromUrl?.name || '';
+    }
+
+    return withCoordinates(
+      {
+        key: `row-${index}`,
+        name: name || get('address'),
+        address: get('address'),
+        memo: get('memo'),
+        postalCode: get('postalCode') || undefined,
+        phoneNumber: get('phoneNumber') || undefined,
+      },
+      latitude,
+      longitude
+    );
+  });
+
+  return { format: 'csv', candidates };
+}
+
+// ファイル名と中身から形式を判定して読み込む
+export function parseImportFile(fileName: string, text: string): ImportParseResult {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  const trimmed = text.trim();
+
+  let result: ImportParseResult;
+  if (extension === 'kml' || trimmed.startsWith('<')) {
+    result = parseKml(trimmed);
+  } else if (extension === 'json' || extension === 'geojson' || trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('ファイルを読み込めませんでした');
+    }
+    if (!isObject(json) || json.type !== 'FeatureCollection') {
+      throw new Error('対応していないファイル形式です');
+    }
+    result = parseGeoJson(json);
+  } else {
+    result = parseCsv(text);
+  }
+
+  result.candidates = result.candidates.filter((c) => c.name || c.address);
+  if (result.candidates.length === 0) {
+    throw new Error('取り込める場所が見つかりませんでした');
+  }
+  return result;
+}
+
+const normalizeName = (name: string): string =>
+  name.normalize('NFKC').replace(/\s/g, '').toLowerCase();
+
+// すでに登録されている場所と同じとみなせるものを探す
+// 名前が同じで100m以内、または名前に関係なく10m以内
+export function findDuplicatePlace(
+  candidate: ImportCandidate,
+  places: Place[]
+): Place | undefined {
+  return places.find((place) => {
+    const sameName = normalizeName(place.name) === normalizeName(candidate.name);
+    if (candidate.latitude === undefined || candidate.longitude === undefined) {
+      return sameName && !!candidate.address && place.address === candidate.address;
+    }
+    const distance = calculateDistance(
+      place.latitude,
+      place.longitude,
+      candidate.latitude,
+      candidate.longitude
+    );
+    return distance <= 10 || (sameName && distance <= 100);
+  });
+}
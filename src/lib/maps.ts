@@ -10,6 +10,48 @@ export function openNavigation(
   window.open(url, '_blank');
 }
 
+// Google マップのURLから緯度経度（と分かれば名前）を取り出す
+// 例: https://www.google.com/maps/place/東京駅/@35.6812,139.7671,17z
+//     https://maps.google.com/?q=35.6812,139.7671
+export function parseGoogleMapsUrl(
+  url: string
+): { latitude: number; longitude: number; name?: string } | null {
+  let parsed: URL;
+  let path: string;
+  try {
+    parsed = new URL(url);
+    path = decodeURIComponent(parsed.pathname);
+  } catch {
+    return null;
+  }
+  if (!/(^|\.)google\.[a-z.]+$/.test(parsed.hostname)) return null;
+
+  const toResult = (lat: string, lng: string, name?: string) => {
+    const latitude = parseFloat(lat);
+    const longitude = parseFloat(lng);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+    return { latitude, longitude, name };
+  };
+
+  const placeName = path.match(/\/place\/([^/@]+)/)?.[1]?.replace(/\+/g, ' ');
+
+  // data=...!3d緯度!4d経度 はピンの正確な位置
+  const pin = path.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  if (pin) return toResult(pin[1], pin[2], placeName);
+
+  for (const key of ['q', 'query', 'destination', 'll']) {
+    const value = parsed.searchParams.get(key);
+    const match = value?.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
+    if (match) return toResult(match[1], match[2], placeName);
+  }
+
+  // @緯度,経度,ズーム は地図の中心
+  const center = path.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  if (center) return toResult(center[1], center[2], placeName);
+
+  return null;
+}
+
 export interface LocationResult {
   latitude: number;
   longitude: number;
@@ -142,6 +184,62 @@ export async function reverseGeocode(
   }
 }
 
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  address: string;
+  postalCode?: string;
+}
+
+// 住所から緯度経度を調べる（Geocoding API）
+export async function geocodeAddress(
+  address: string,
+  apiKey: string
+): Promise<GeocodeResult | null> {
+  if (!address.trim() || typeof fetch === 'undefined') return null;
+
+  const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${apiKey}&language=ja&region=jp`;
+
+  try {
+    const response = await fetch(url);
+    const data = await response.json();
+
+    if (data.status !== 'OK' || !data.results?.length) {
+      console.warn('Forward geocoding failed:', data.status, data.error_message);
+      return null;
+    }
+
+    const result = data.results[0];
+    const location = result.geometry?.location;
+    if (typeof location?.lat !== 'number' || typeof location?.lng !== 'number') return null;
+
+    let postalCode: string | undefined;
+    for (const component of result.address_components || []) {
+      if (component.types?.includes('postal_code')) {
+        postalCode = component.long_name;
+        if (postalCode && !postalCode.includes('-') && postalCode.length === 7) {
+          postalCode = postalCode.slice(0, 3) + '-' + postalCode.slice(3);
+        }
+        break;
+      }
+    }
+
+    return {
+      latitude: location.lat,
+      longitude: location.lng,
+      address: (result.formatted_address || address)
+        .replace(/^日本、?\s*/, '')
+        .replace(/〒?\s*\d{3}-?\d{4}\s*/, '')
+        .replace(/^[,、\s]+/, '')
+        .trim(),
+      postalCode,
+    };
+  } catch (error) {
+    console.error('Forward geocode error:', error);
+    return null;
+  }
+}
+
 export interface PlaceSearchResult {
   placeId: string;
   name: string;
@@ -586,7 +684,7 @@ export async function getPlaceDetailsRest(
 }
 
 // 距離計算関数（Haversine formula）
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
   const R = 6371000; // 地球の半径（メートル）
   const dLat = (lat2 - lat1) * Math.PI / 180;
   const dLng = (lng2 - lng1) * Math.PI / 180;
@@ -0,0 +1,117 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Place, Tab } from '../types';
+import { DEFAULT_TABS } from '../types';
+
+// 保存データの形式バージョン
+// Place / Tab の形を変えるときは SCHEMA_VERSION を上げて MIGRATIONS に追加する
+export const SCHEMA_VERSION = 5;
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  migratePlace?: (place: RawRecord) => RawRecord;
+  migrateTab?: (tab: RawRecord) => RawRecord;
+}
+
+const asString = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : fallback;
+
+const isTagId = (value: unknown): value is string =>
+  typeof value === 'string' && value !== '' && value !== 'all';
+
+const MIGRATIONS: Migration[] = [
+  {
+    // localStorage時代のデータを正規化（欠けた項目の補完、数値の型そろえ）
+    version: 1,
+    migratePlace: (place) => {
+      const now = new Date().toISOString();
+      const createdAt = asString(place.createdAt, now);
+      return {
+        ...place,
+        id: asString(place.id) || uuidv4(),
+        name: asString(place.name),
+        memo: asString(place.memo),
+        address: asString(place.address),
+        latitude: Number(place.latitude),
+        longitude: Number(place.longitude),
+        tabId: asString(place.tabId) || 'frequent',
+        createdAt,
+        updatedAt: asString(place.updatedAt, createdAt),
+      };
+    },
+    migrateTab: (tab) => ({
+      ...tab,
+      id: asString(tab.id) || uuidv4(),
+      name: asString(tab.name),
+      isCustom: tab.isCustom === true,
+      order: Number(tab.order) || 0,
+    }),
+  },
+  {
+    // カテゴリ1つ（tabId）から複数のタグ（tagIds）へ
+    version: 2,
+    migratePlace: (place) => {
+      const { tabId, ...rest } = place;
+      const tagIds = Array.isArray(place.tagIds)
+        ? place.tagIds.filter(isTagId)
+        : isTagId(tabId)
+          ? [tabId]
+          : [];
+      return { ...rest, tagIds: [...new Set(tagIds)] };
+    },
+  },
+  {
+    // 標準カテゴリに絵文字と色をつける（自分で変えたものはそのまま）
+    version: 3,
+    migrateTab: (tab) => {
+      const defaults = DEFAULT_TABS.find((t) => t.id === tab.id);
+      if (!defaults || tab.isCustom) return tab;
+      return {
+        ...tab,
+        icon: tab.icon ?? defaults.icon,
+        color: tab.color ?? defaults.color,
+      };
+    },
+  },
+  {
+    // 「すべて」を条件のないスマートリストにする
+    version: 4,
+    migrateTab: (tab) => (tab.id === 'all' && !Array.isArray(tab.rules) ? { ...tab, rules: [] } : tab),
+  },
+  {
+    // 内容を編集した日時を分けて持つ（それまでの編集は更新日時しかわからない）
+    version: 5,
+    migratePlace: (place) =>
+      typeof place.editedAt === 'string' ? place : { ...place, editedAt: place.updatedAt },
+  },
+];
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface MigrationResult {
+  places: Place[];
+  tabs: Tab[];
+}
+
+// fromVersion より新しいマイグレーションを順に適用する
+export function migrateRecords(
+  data: { places: unknown[]; tabs: unknown[] },
+  fromVersion: number
+): MigrationResult {
+  const pending = MIGRATIONS.filter((m) => m.version > fromVersion);
+
+  let places = data.places.filter(isRecord);
+  let tabs = data.tabs.filter(isRecord);
+
+  for (const migration of pending) {
+    if (migration.migratePlace) places = places.map(migration.migratePlace);
+    if (migration.migrateTab) tabs = tabs.map(migration.migrateTab);
+  }
+
+  return {
+    places: places as unknown as Place[],
+    tabs: tabs as unknown as Tab[],
+  };
+}
@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { PlacePhoto } from '../types';
+
+// 場所の写真：撮った写真をそのまま保存すると大きすぎるので縮小してから持つ
+
+// 1つの場所につけられる写真の数
+export const PHOTO_LIMIT = 10;
+
+// 長い方の辺の大きさ
+const IMAGE_MAX_SIZE = 1600;
+const THUMBNAIL_MAX_SIZE = 320;
+const JPEG_QUALITY = 0.8;
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('写真を縮小できませんでした'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+async function resizeImage(
+  bitmap: ImageBitmap,
+  maxSize: number
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('写真を縮小できませんでした');
+  context.drawImage(bitmap, 0, 0, width, height);
+
+  return { blob: await canvasToBlob(canvas), width, height };
+}
+
+// placeId は保存するときに storage の setPlacePhotos がつけ直す（新しい場所はまだIDがない）
+export async function createPlacePhoto(file: File, placeId = ''): Promise<PlacePhoto> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('写真のファイルを選んでください');
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    // 縦向きに撮った写真が横にならないよう、写真の向きの情報に従う
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('写真を読み込めませんでした');
+  }
+
+  try {
+    const image = await resizeImage(bitmap, IMAGE_MAX_SIZE);
+    const thumbnail = await resizeImage(bitmap, THUMBNAIL_MAX_SIZE);
+    return {
+      id: uuidv4(),
+      placeId,
+      createdAt: new Date().toISOString(),
+      image: image.blob,
+      thumbnail: thumbnail.blob,
+      width: image.width,
+      height: image.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,61 @@
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+
+// QRコードの作成と読み取り
+
+export function createQrDataUrl(text: string): Promise<string> {
+  return QRCode.toDataURL(text, { errorCorrectionLevel: 'M', margin: 2, width: 320 });
+}
+
+// BarcodeDetector は TypeScript の標準の型定義に含まれていない
+interface BarcodeDetectorLike {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+export type QrSource = HTMLVideoElement | ImageBitmap;
+
+// jsQR は大きな画像だと遅いので縮小してから読む
+const MAX_DECODE_SIZE = 800;
+
+function createBarcodeDetector(): BarcodeDetectorLike | null {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  if (!Detector) return null;
+  try {
+    return new Detector({ formats: ['qr_code'] });
+  } catch {
+    // QRコードに対応していない端末
+    return null;
+  }
+}
+
+// 端末が BarcodeDetector に対応していればそれを使い、なければ jsQR で読む
+export function createQrReader(): (source: QrSource) => Promise<string | null> {
+  let detector = createBarcodeDetector();
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+
+  return async (source) => {
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+    if (!width || !height) return null;
+
+    if (detector) {
+      try {
+        const codes = await detector.detect(source);
+        return codes[0]?.rawValue ?? null;
+      } catch {
+        detector = null;
+      }
+    }
+
+    if (!context) return null;
+    const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(image.data, image.width, image.height)?.data ?? null;
+  };
+}
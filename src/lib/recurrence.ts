@@ -0,0 +1,170 @@
+import {
+  format,
+  parseISO,
+  addDays,
+  startOfDay,
+  isSameDay,
+  isSameMonth,
+  differenceInCalendarWeeks,
+  subMonths,
+} from 'date-fns';
+import type { Place, Recurrence, RecurrencePattern } from '../types';
+
+// くり返しの予定：決まった曜日・日付に行く場所
+// 予定の日は保存せず、表示するたびに Place.recurrence から求める
+
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+export const RECURRENCE_KIND_LABELS: Record<RecurrencePattern['kind'], string> = {
+  weekly: '毎週（曜日を選ぶ）',
+  'monthly-weekday': '毎月（第○○曜日）',
+  dates: '決まった日だけ',
+};
+
+export const NTH_LABELS: Record<number, string> = {
+  1: '第1',
+  2: '第2',
+  3: '第3',
+  4: '第4',
+  [-1]: '最終',
+};
+
+// 日付の区切り（カレンダーなどの日付キーと同じ形）
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// くり返しの種類を選んだときに最初に入れておく値
+export function createDefaultRecurrence(kind: RecurrencePattern['kind'], today: Date): Recurrence {
+  switch (kind) {
+    case 'weekly':
+      return { kind, weekdays: [today.getDay()], intervalWeeks: 1, startDate: toDateKey(today) };
+    case 'monthly-weekday':
+      return { kind, nth: Math.min(4, Math.ceil(today.getDate() / 7)), weekday: today.getDay() };
+    case 'dates':
+      return { kind, dates: [] };
+  }
+}
+
+// 曜日や日付をひとつも選んでいなければ、くり返さないのと同じ
+export function hasOccurrences(recurrence: Recurrence): boolean {
+  switch (recurrence.kind) {
+    case 'weekly':
+      return recurrence.weekdays.length > 0;
+    case 'monthly-weekday':
+      return true;
+    case 'dates':
+      return recurrence.dates.length > 0;
+  }
+}
+
+// 休みにした日も含めて、決まりに当てはまるか
+function matchesPattern(recurrence: Recurrence, date: Date): boolean {
+  switch (recurrence.kind) {
+    case 'weekly': {
+      if (!recurrence.weekdays.includes(date.getDay())) return false;
+      const start = parseISO(recurrence.startDate);
+      if (startOfDay(date) < start) return false;
+      const weeks = differenceInCalendarWeeks(date, start);
+      return weeks % Math.max(1, recurrence.intervalWeeks) === 0;
+    }
+    case 'monthly-weekday': {
+      if (date.getDay() !== recurrence.weekday) return false;
+      if (recurrence.nth === -1) return !isSameMonth(date, addDays(date, 7));
+      return Math.ceil(date.getDate() / 7) === recurrence.nth;
+    }
+    case 'dates':
+      return recurrence.dates.includes(toDateKey(date));
+  }
+}
+
+export function isSkipped(recurrence: Recurrence, date: Date): boolean {
+  return recurrence.skippedDates?.includes(toDateKey(date)) ?? false;
+}
+
+export function occursOn(recurrence: Recurrence, date: Date): boolean {
+  return matchesPattern(recurrence, date) && !isSkipped(recurrence, date);
+}
+
+// 次に行く日（休みにした日は飛ばす。1年先まで探す）
+export function getUpcomingDates(recurrence: Recurrence, from: Date, count: number): Date[] {
+  const dates: Date[] = [];
+  for (let i = 0; i <= 366 && dates.length < count; i++) {
+    const date = addDays(startOfDay(from), i);
+    if (occursOn(recurrence, date)) dates.push(date);
+  }
+  return dates;
+}
+
+// 休みにした日を残しておく期間（過ぎた日の休みもカレンダーに出すため、1年分は残す）
+const SKIP_RETENTION_MONTHS = 12;
+
+// その日だけ休む（もう一度呼ぶと取り消す）
+// 残す期間より前の休みは、ついでに片づける（選んだ日は片づけずに切り替える）
+export function toggleSkippedDate(recurrence: Recurrence, date: Date, today = new Date()): Recurrence {
+  const dateKey = toDateKey(date);
+  const oldestKey = toDateKey(subMonths(today, SKIP_RETENTION_MONTHS));
+  const current = recurrence.skippedDates ?? [];
+  const others = current.filter((d) => d !== dateKey && d >= oldestKey);
+  return {
+    ...recurrence,
+    skippedDates: current.includes(dateKey) ? others : [...others, dateKey].sort(),
+  };
+}
+
+// 例: 「2週間ごと 火・木 9:30」「毎月 第2火曜日」
+export function describeRecurrence(recurrence: Recurrence): string {
+  let text: string;
+  switch (recurrence.kind) {
+    case 'weekly': {
+      const days = [...recurrence.weekdays]
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join('・');
+      text =
+        recurrence.intervalWeeks > 1
+          ? `${recurrence.intervalWeeks}週間ごと ${days}`
+          : `毎週 ${days}`;
+      break;
+    }
+    case 'monthly-weekday':
+      text = `毎月 ${NTH_LABELS[recurrence.nth]}${WEEKDAY_LABELS[recurrence.weekday]}曜日`;
+      break;
+    case 'dates':
+      text = `決まった日（${recurrence.dates.length}日）`;
+      break;
+  }
+  return recurrence.time ? `${text} ${recurrence.time}` : text;
+}
+
+// 行く予定（日時を決めた予定とくり返しの予定）
+export interface ScheduledVisit {
+  place: Place;
+  // HH:mm（時刻を決めていなければ未設定）
+  time?: string;
+  recurring: boolean;
+  // くり返しの予定のうち、この日は休みにしたもの
+  skipped: boolean;
+}
+
+// その日に行く予定の場所（時刻の早い順、時刻なしは最後）
+export function getScheduledVisits(places: Place[], date: Date): ScheduledVisit[] {
+  const visits: ScheduledVisit[] = [];
+  places.forEach((place) => {
+    if (place.plannedAt && isSameDay(new Date(place.plannedAt), date)) {
+      visits.push({
+        place,
+        time: format(new Date(place.plannedAt), 'HH:mm'),
+        recurring: false,
+        skipped: false,
+      });
+    }
+    if (place.recurrence && matchesPattern(place.recurrence, date)) {
+      visits.push({
+        place,
+        time: place.recurrence.time,
+        recurring: true,
+        skipped: isSkipped(place.recurrence, date),
+      });
+    }
+  });
+  return visits.sort((a, b) => (a.time ?? '99:99').localeCompare(b.time ?? '99:99'));
+}
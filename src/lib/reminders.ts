@@ -0,0 +1,141 @@
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { Place } from '../types';
+import { subscribe, getPlaces } from './storage';
+
+// 行く予定の場所のお知らせ
+// サーバーからのプッシュは使わないので、アプリ（タブ）が開いている間に時間が来たら知らせる
+// 閉じている間に時間が過ぎた分は、予定の時刻より前に開いたときにまとめて知らせる
+
+export const REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'ちょうどに' },
+  { minutes: 15, label: '15分前' },
+  { minutes: 60, label: '1時間前' },
+  { minutes: 180, label: '3時間前' },
+  { minutes: 1440, label: '前の日' },
+];
+
+// 知らせ済みのお知らせ（同じ予定を何度も知らせない）
+const NOTIFIED_KEY = 'kokomemo_notified_reminders';
+// setTimeout に渡せる最大の待ち時間（約24日）
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export function formatPlannedAt(plannedAt: string): string {
+  return format(new Date(plannedAt), 'M月d日（E）H:mm', { locale: ja });
+}
+
+export function getReminderLabel(minutes: number): string {
+  return REMINDER_OPTIONS.find((o) => o.minutes === minutes)?.label ?? `${minutes}分前`;
+}
+
+// お知らせを出す時刻（お知らせしない場所は null）
+export function getReminderTime(place: Place): Date | null {
+  if (!place.plannedAt || place.reminderMinutesBefore === undefined) return null;
+  return new Date(new Date(place.plannedAt).getTime() - place.reminderMinutesBefore * 60 * 1000);
+}
+
+// 予定を変えたら知らせ直すよう、日時も含めて区別する
+const reminderKey = (place: Place): string =>
+  `${place.id}:${place.plannedAt}:${place.reminderMinutesBefore}`;
+
+function loadNotified(): string[] {
+  try {
+    const stored = localStorage.getItem(NOTIFIED_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((key) => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveNotified(keys: string[]): void {
+  try {
+    localStorage.setItem(NOTIFIED_KEY, JSON.stringify(keys));
+  } catch {
+    // 保存できなくても、次に開いたとき同じお知らせがもう一度出るだけ
+  }
+}
+
+export function notificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+// お知らせの許可をもらう（すでに断られている場合は false）
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+// タップしたら、その場所のナビ画面を開く（public/notification-sw.js で処理する）
+export function getPlannedVisitUrl(placeId: string): string {
+  return new URL(`${import.meta.env.BASE_URL}visit/${placeId}`, window.location.origin).href;
+}
+
+async function showReminder(place: Place): Promise<void> {
+  if (!place.plannedAt) return;
+  const title = `🗓️ ${place.name}`;
+  const options: NotificationOptions = {
+    body: `${formatPlannedAt(place.plannedAt)}に行く予定です。タップでナビを始められます`,
+    tag: `reminder-${place.id}`,
+    icon: `${import.meta.env.BASE_URL}icon-192.png`,
+    data: { url: getPlannedVisitUrl(place.id) },
+  };
+  // Service Worker から出すと、アプリを閉じてもお知らせが残り、タップで開ける
+  const registration =
+    'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+}
+
+export function startReminders(): void {
+  let timerId: ReturnType<typeof setTimeout> | null = null;
+
+  const check = () => {
+    if (timerId) clearTimeout(timerId);
+    timerId = null;
+    // 許可がなければ何もしない（許可したあとで予定を保存すると、また確かめる）
+    if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+    const now = Date.now();
+    const places = getPlaces();
+    const activeKeys = new Set(places.map(reminderKey));
+    // 消した場所・変えた予定の分は忘れる
+    const notified = loadNotified().filter((key) => activeKeys.has(key));
+    let nextAt = Infinity;
+
+    places.forEach((place) => {
+      const reminderAt = getReminderTime(place)?.getTime();
+      if (!place.plannedAt || reminderAt === undefined) return;
+      if (notified.includes(reminderKey(place))) return;
+      // 予定の時刻を過ぎたものは知らせない
+      if (new Date(place.plannedAt).getTime() < now) return;
+      if (reminderAt <= now) {
+        notified.push(reminderKey(place));
+        showReminder(place).catch((error) => console.error('Reminder error:', error));
+      } else {
+        nextAt = Math.min(nextAt, reminderAt);
+      }
+    });
+    saveNotified(notified);
+
+    if (nextAt !== Infinity) {
+      timerId = setTimeout(check, Math.min(nextAt - now, MAX_TIMER_MS));
+    }
+  };
+
+  let lastPlaces = getPlaces();
+  subscribe(() => {
+    const places = getPlaces();
+    if (places === lastPlaces) return;
+    lastPlaces = places;
+    check();
+  });
+  // スリープから戻ったときはタイマーが遅れていることがある
+  document.addEventListener('visibilitychange', check);
+  check();
+}
@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Place, PlaceRevision, RevisionSource, FieldChange } from '../types';
+import { PLACE_FIELDS, isSameFieldValue } from './conflicts';
+
+// 1つの場所につき残しておく履歴の数（古いものから消える）
+export const MAX_REVISIONS_PER_PLACE = 20;
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  edit: '編集',
+  import: '取り込み',
+  sync: '同期',
+  restore: '以前の内容に戻す',
+};
+
+// 変わった項目だけを記録する（変化がなければ null）
+// 持ち物リスト・行く予定・くり返しは記録しない。チェックやナビ開始でのリセット、
+// 「今日は休む」で毎日のように変わり、20件の履歴がすぐに押し出されてしまうため
+// （最後に編集した日時は Place.editedAt で持つ）
+export function createRevision(
+  before: Place,
+  after: Place,
+  source: RevisionSource
+): PlaceRevision | null {
+  const changes: FieldChange[] = PLACE_FIELDS.filter(
+    (field) => !isSameFieldValue(before[field], after[field])
+  ).map((field) => ({ field, before: before[field], after: after[field] }));
+  if (changes.length === 0) return null;
+
+  return { id: uuidv4(), createdAt: new Date().toISOString(), source, changes };
+}
+
+export function appendRevision(
+  revisions: PlaceRevision[] | undefined,
+  revision: PlaceRevision
+): PlaceRevision[] {
+  return [revision, ...(revisions || [])].slice(0, MAX_REVISIONS_PER_PLACE);
+}
+
+// 指定した変更が行われる前の内容を求める
+// 新しい履歴から順に変更を取り消していく
+export function fieldsBeforeRevision(
+  place: Place,
+  revisions: PlaceRevision[],
+  revisionId: string
+): Partial<Place> | null {
+  const index = revisions.findIndex((r) => r.id === revisionId);
+  if (index === -1) return null;
+
+  const fields: Partial<Record<keyof Place, unknown>> = {};
+  revisions.slice(0, index + 1).forEach((revision) => {
+    revision.changes.forEach((change) => {
+      // カテゴリが1つ（tabId）だったころの履歴は、今のタグの形（tagIds）で戻す
+      if ((change.field as string) === 'tabId') {
+        if (typeof change.before === 'string') fields.tagIds = [change.before];
+        return;
+      }
+      fields[change.field] = change.before;
+    });
+  });
+
+  // 今と同じ値の項目は含めない
+  (Object.keys(fields) as (keyof Place)[]).forEach((field) => {
+    if (isSameFieldValue(fields[field], place[field])) delete fields[field];
+  });
+  return fields as Partial<Place>;
+}
@@ -0,0 +1,183 @@
+import type { Place } from '../types';
+import { parseGoogleMapsUrl } from './maps';
+import { hasUsableCoordinates } from './validation';
+
+// 場所をリンクで共有する
+// 名前・住所・位置・メモ・電話番号を短い配列にして URL に埋め込む
+//   例: https://.../kokomemo/import?d=<base64url>
+
+export type SharedPlace = Pick<Place, 'name' | 'address' | 'latitude' | 'longitude' | 'memo'> & {
+  phoneNumber?: string;
+};
+
+const SHARE_VERSION = 1;
+export const SHARE_PARAM = 'd';
+
+// 6桁で約10cmの精度（それ以上は URL が長くなるだけ）
+const roundCoordinate = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (payload: string): string => {
+  const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+};
+
+export function encodeSharedPlace(place: SharedPlace): string {
+  const fields: (string | number)[] = [
+    SHARE_VERSION,
+    place.name,
+    place.address,
+    roundCoordinate(place.latitude),
+    roundCoordinate(place.longitude),
+    place.memo,
+    place.phoneNumber || '',
+  ];
+  // 末尾の空の項目は省く
+  while (fields[fields.length - 1] === '') fields.pop();
+  return toBase64Url(JSON.stringify(fields));
+}
+
+export function decodeSharedPlace(payload: string): SharedPlace {
+  let fields: unknown;
+  try {
+    fields = JSON.parse(fromBase64Url(payload));
+  } catch {
+    throw new Error('リンクが壊れています。送ってくれた人にもう一度送ってもらってください');
+  }
+  if (!Array.isArray(fields) || typeof fields[0] !== 'number') {
+    throw new Error('リンクが壊れています。送ってくれた人にもう一度送ってもらってください');
+  }
+  if (fields[0] > SHARE_VERSION) {
+    throw new Error('新しい版のアプリで作られたリンクです。アプリを更新してください');
+  }
+
+  const [, name = '', address = '', latitude, longitude, memo = '', phoneNumber = ''] = fields;
+  const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+  // 0,0 は位置が取れなかったときの値なので、そのまま登録させない
+  if (!hasUsableCoordinates(latitude, longitude)) {
+    throw new Error('リンクに場所の位置が含まれていません');
+  }
+
+  return {
+    name: text(name),
+    address: text(address),
+    latitude,
+    longitude,
+    memo: text(memo),
+    phoneNumber: text(phoneNumber) || undefined,
+  };
+}
+
+export function createShareUrl(place: SharedPlace): string {
+  const url = new URL(`${import.meta.env.BASE_URL}import`, window.location.origin);
+  url.searchParams.set(SHARE_PARAM, encodeSharedPlace(place));
+  return url.toString();
+}
+
+// Clipboard API が使えない古い端末向けに、選択してコピーする方法も試す
+async function copyText(text: string): Promise<void> {
+  if (navigator.clipboard?.writeText) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return;
+    } catch {
+      // 下の方法を試す
+    }
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  const copied = document.execCommand('copy');
+  textarea.remove();
+  if (!copied) {
+    throw new Error('リンクをコピーできませんでした');
+  }
+}
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled';
+
+// 共有メニュー（LINE・メールなど）が使えればそれで送り、なければリンクをコピーする
+export async function sharePlace(place: SharedPlace): Promise<ShareOutcome> {
+  const url = createShareUrl(place);
+
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ title: place.name, text: `「${place.name}」を共有します`, url });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return 'cancelled';
+      // 共有できなかったときはコピーに切り替える
+    }
+  }
+
+  await copyText(url);
+  return 'copied';
+}
+
+// geo:35.6812,139.7671 / geo:0,0?q=35.6812,139.7671(東京駅)
+function parseGeoUri(text: string): SharedPlace | null {
+  const match = text.match(/^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)[^?]*(?:\?(.*))?$/i);
+  if (!match) return null;
+
+  let latitude = parseFloat(match[1]);
+  let longitude = parseFloat(match[2]);
+  let name = '';
+  const query = new URLSearchParams(match[3] || '').get('q');
+  const labeled = query?.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*(?:\((.*)\))?\s*$/);
+  if (labeled) {
+    latitude = parseFloat(labeled[1]);
+    longitude = parseFloat(labeled[2]);
+    name = labeled[3] || '';
+  }
+  // 0,0 は「位置は q で指定」の意味なので、住所だけの場合は扱えない
+  if (latitude === 0 && longitude === 0) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { name, address: '', latitude, longitude, memo: '' };
+}
+
+// QRコードなどで読み取った文字列から場所を取り出す
+// ここメモの共有リンク・geo: URI・Google マップのURLに対応（それ以外は null）
+export function parsePlaceText(text: string): SharedPlace | null {
+  const trimmed = text.trim();
+  if (/^geo:/i.test(trimmed)) return parseGeoUri(trimmed);
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+
+  const payload = url.searchParams.get(SHARE_PARAM);
+  if (payload && url.pathname.endsWith('/import')) {
+    try {
+      return decodeSharedPlace(payload);
+    } catch {
+      return null;
+    }
+  }
+
+  const fromMaps = parseGoogleMapsUrl(trimmed);
+  if (!fromMaps) return null;
+  return {
+    name: fromMaps.name || '',
+    address: '',
+    latitude: fromMaps.latitude,
+    longitude: fromMaps.longitude,
+    memo: '',
+  };
+}
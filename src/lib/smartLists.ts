@@ -0,0 +1,126 @@
+import { startOfDay, startOfWeek, startOfMonth, startOfYear, subMonths } from 'date-fns';
+import type { Place, Tab, SmartRule } from '../types';
+import { calculateDistance } from './maps';
+
+// スマートリスト：条件で場所を集めるカテゴリ
+// 条件は Tab.rules に保存し、表示するたびに Place[] に当てはめる
+
+type CreatedPeriod = Extract<SmartRule, { kind: 'created-in' }>['period'];
+type TextField = Extract<SmartRule, { kind: 'text' }>['field'];
+
+export const SMART_RULE_KIND_LABELS: Record<SmartRule['kind'], string> = {
+  near: '現在地からの距離',
+  'created-in': '登録した時期',
+  text: '文字を含む',
+  stale: 'しばらく編集していない',
+  tag: 'カテゴリ',
+  phone: '電話番号がある',
+};
+
+export const SMART_PERIOD_LABELS: Record<CreatedPeriod, string> = {
+  day: '今日',
+  week: '今週',
+  month: '今月',
+  year: '今年',
+};
+
+export const SMART_TEXT_FIELD_LABELS: Record<TextField, string> = {
+  name: '名前',
+  memo: 'メモ',
+  address: '住所',
+};
+
+// 条件を選んだときに最初に入れておく値
+export function createDefaultRule(kind: SmartRule['kind'], tabs: Tab[]): SmartRule {
+  switch (kind) {
+    case 'near':
+      return { kind, km: 2 };
+    case 'created-in':
+      return { kind, period: 'month' };
+    case 'text':
+      return { kind, field: 'memo', text: '' };
+    case 'stale':
+      return { kind, months: 6 };
+    case 'tag':
+      return { kind, tagId: tabs.find((t) => !isSmartTab(t))?.id ?? '' };
+    case 'phone':
+      return { kind };
+  }
+}
+
+export function isSmartTab(tab: Tab): boolean {
+  return Array.isArray(tab.rules);
+}
+
+export function needsLocation(tab: Tab): boolean {
+  return !!tab.rules?.some((rule) => rule.kind === 'near');
+}
+
+// 「駐車場」をメモに含む、などの説明文
+export function describeRule(rule: SmartRule, tabs: Tab[]): string {
+  switch (rule.kind) {
+    case 'near':
+      return `現在地から${rule.km}km以内`;
+    case 'created-in':
+      return `${SMART_PERIOD_LABELS[rule.period]}登録した`;
+    case 'text':
+      return `${SMART_TEXT_FIELD_LABELS[rule.field]}に「${rule.text}」を含む`;
+    case 'stale':
+      return `${rule.months}か月以上編集していない`;
+    case 'tag':
+      return `カテゴリが「${tabs.find((t) => t.id === rule.tagId)?.name ?? '削除したカテゴリ'}」`;
+    case 'phone':
+      return '電話番号がある';
+  }
+}
+
+export interface SmartListContext {
+  now: Date;
+  // 現在地（わからなければ、距離の条件には当てはまらない）
+  location: { latitude: number; longitude: number } | null;
+}
+
+const PERIOD_START: Record<CreatedPeriod, (d: Date) => Date> = {
+  day: startOfDay,
+  week: (d) => startOfWeek(d, { weekStartsOn: 1 }),
+  month: startOfMonth,
+  year: startOfYear,
+};
+
+function matchesRule(place: Place, rule: SmartRule, context: SmartListContext): boolean {
+  switch (rule.kind) {
+    case 'near': {
+      if (!context.location) return false;
+      const { latitude, longitude } = context.location;
+      const meters = calculateDistance(latitude, longitude, place.latitude, place.longitude);
+      return meters <= rule.km * 1000;
+    }
+    case 'created-in':
+      return new Date(place.createdAt) >= PERIOD_START[rule.period](context.now);
+    case 'text':
+      return (place[rule.field] ?? '').toLowerCase().includes(rule.text.trim().toLowerCase());
+    case 'stale':
+      // updatedAt はチェックや「今日は休む」でも変わるので、編集した日時で比べる
+      return (
+        new Date(place.editedAt ?? place.createdAt) <= subMonths(context.now, rule.months)
+      );
+    case 'tag':
+      return place.tagIds.includes(rule.tagId);
+    case 'phone':
+      return !!place.phoneNumber?.trim();
+  }
+}
+
+// 条件のないスマートリスト（「すべて」）はすべての場所に当てはまる
+export function matchesSmartList(place: Place, tab: Tab, context: SmartListContext): boolean {
+  const rules = tab.rules ?? [];
+  if (rules.length === 0) return true;
+  return tab.ruleMatch === 'any'
+    ? rules.some((rule) => matchesRule(place, rule, context))
+    : rules.every((rule) => matchesRule(place, rule, context));
+}
+
+export function describeSmartList(tab: Tab, tabs: Tab[]): string {
+  const separator = tab.ruleMatch === 'any' ? ' または ' : ' かつ ';
+  return (tab.rules ?? []).map((rule) => describeRule(rule, tabs)).join(separator);
+}
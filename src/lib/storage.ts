@@ -1,67 +1,753 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Place, Tab, SearchHistory, AppSettings } from '../types';
+import type {
+  Place,
+  Tab,
+  SearchHistory,
+  AppSettings,
+  PlaceHistory,
+  PlaceRevision,
+  RevisionSource,
+  SyncRecordType,
+  OutboxEntry,
+  RemoteChange,
+  SyncState,
+  Visit,
+  VisitSource,
+  VisitStats,
+  PlacePhoto,
+  VoiceMemo,
+} from '../types';
 import { DEFAULT_TABS, DEFAULT_SETTINGS } from '../types';
+import {
+  STORES,
+  openDatabase,
+  getAllRecords,
+  getValue,
+  putRecords,
+  putValue,
+  deleteRecords,
+  writeStores,
+} from './db';
+import { SCHEMA_VERSION, migrateRecords } from './migrations';
+import type { QuarantinedRecord } from './validation';
+import { partitionRecords, sanitizeSettings, validatePlace, validateTab } from './validation';
+import { createRevision, appendRevision, fieldsBeforeRevision } from './revisions';
+import { uncheckAll } from './checklist';
+import type { CrossTabMessage } from './crossTab';
+import { listenCrossTab, postCrossTabMessage } from './crossTab';
 
+// 旧バージョン（localStorage保存）のキー
+// IndexedDBへの取り込み後もバックアップとして残しておく
 const STORAGE_KEYS = {
   PLACES: 'kokomemo_places',
   TABS: 'kokomemo_tabs',
   SEARCH_HISTORY: 'kokomemo_search_history',
   SETTINGS: 'kokomemo_settings',
+  QUARANTINE: 'kokomemo_quarantine',
+  REVISIONS: 'kokomemo_revisions',
+  OUTBOX: 'kokomemo_outbox',
+  SYNC_STATE: 'kokomemo_sync_state',
+  VISITS: 'kokomemo_visits',
 } as const;
 
-// Helper to safely parse JSON from localStorage
-function safeJsonParse<T>(key: string, defaultValue: T): T {
+const META_KEYS = {
+  SCHEMA_VERSION: 'schemaVersion',
+  LEGACY_IMPORTED_AT: 'legacyImportedAt',
+  SEARCH_HISTORY: 'searchHistory',
+  SETTINGS: 'settings',
+  QUARANTINE: 'quarantine',
+  SYNC_STATE: 'syncState',
+} as const;
+
+interface StorageCache {
+  places: Place[];
+  tabs: Tab[];
+  searchHistory: SearchHistory[];
+  settings: AppSettings;
+  // 読み込めなかったレコード（消さずに取っておく）
+  quarantine: QuarantinedRecord[];
+  // 場所IDごとの変更履歴（新しい順）
+  revisions: Record<string, PlaceRevision[]>;
+  // 同期サーバーへまだ送っていない変更
+  outbox: OutboxEntry[];
+  syncState: SyncState;
+  visits: Visit[];
+  // 写真はIndexedDBにだけ保存する（localStorageには入りきらない）
+  photos: PlacePhoto[];
+  voiceMemos: VoiceMemo[];
+}
+
+// 読み込みはすべてメモリ上のキャッシュから行い、
+// 書き込みはキャッシュを即時更新したうえでIndexedDBへレコード単位で反映する
+const cache: StorageCache = {
+  places: [],
+  tabs: [],
+  searchHistory: [],
+  settings: DEFAULT_SETTINGS,
+  quarantine: [],
+  revisions: {},
+  outbox: [],
+  syncState: { lastSeq: 0 },
+  visits: [],
+  photos: [],
+  voiceMemos: [],
+};
+
+// 変更の通知（hooks/useStorage.ts から購読する）
+const listeners = new Set<() => void>();
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notifyListeners(): void {
+  listeners.forEach((listener) => listener());
+}
+
+// IndexedDBが使えない環境（一部のプライベートブラウズ等）では従来のlocalStorage保存を続ける
+let useLocalStorageFallback = false;
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+// 書き込みは順番に実行する。失敗しても後続の書き込みは続ける
+function enqueueWrite(task: () => Promise<void>): Promise<void> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch((error) => {
+    console.error('Failed to write to IndexedDB:', error);
+  });
+  return result;
+}
+
+// 保留中の書き込みがすべて終わるまで待つ
+export function flushWrites(): Promise<void> {
+  return writeQueue;
+}
+
+// Helper to parse JSON from localStorage without hiding corruption
+// 壊れたデータは元の文字列を別キーに退避してから undefined を返す
+function readLegacyJson<T>(key: string): T | undefined {
+  const item = localStorage.getItem(key);
+  if (!item) return undefined;
+  try {
+    return JSON.parse(item) as T;
+  } catch (error) {
+    console.error(`Failed to parse localStorage key "${key}":`, error);
+    localStorage.setItem(`${key}_corrupted_${Date.now()}`, item);
+    return undefined;
+  }
+}
+
+// queue: 同期サーバーへ送る変更として記録するか（サーバーから受け取った変更では false）
+function persistPlaces(changed: Place[], removedIds: string[] = [], queue = true): void {
+  if (queue) {
+    queueSync('place', changed.map((p) => p.id), removedIds);
+  }
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(cache.places));
+    return;
+  }
+  enqueueWrite(async () => {
+    await putRecords(STORES.PLACES, changed);
+    await deleteRecords(STORES.PLACES, removedIds);
+    postCrossTabMessage({ kind: 'places', changed, removedIds });
+  });
+}
+
+function persistTabs(changed: Tab[], removedIds: string[] = [], queue = true): void {
+  if (queue) {
+    queueSync('tab', changed.map((t) => t.id), removedIds);
+  }
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(cache.tabs));
+    return;
+  }
+  enqueueWrite(async () => {
+    await putRecords(STORES.TABS, changed);
+    await deleteRecords(STORES.TABS, removedIds);
+    postCrossTabMessage({ kind: 'tabs', changed, removedIds });
+  });
+}
+
+function persistSearchHistory(): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify(cache.searchHistory));
+    return;
+  }
+  const searchHistory = cache.searchHistory;
+  enqueueWrite(async () => {
+    await putValue(STORES.META, META_KEYS.SEARCH_HISTORY, searchHistory);
+    postCrossTabMessage({ kind: 'searchHistory', searchHistory });
+  });
+}
+
+function persistSettings(): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(cache.settings));
+    return;
+  }
+  const settings = cache.settings;
+  enqueueWrite(async () => {
+    await putValue(STORES.META, META_KEYS.SETTINGS, settings);
+    postCrossTabMessage({ kind: 'settings', settings });
+  });
+}
+
+function persistQuarantine(): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(cache.quarantine));
+    return;
+  }
+  const quarantine = cache.quarantine;
+  enqueueWrite(async () => {
+    await putValue(STORES.META, META_KEYS.QUARANTINE, quarantine);
+    postCrossTabMessage({ kind: 'quarantine', quarantine });
+  });
+}
+
+function persistRevisions(changedPlaceIds: string[], removedPlaceIds: string[] = []): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.REVISIONS, JSON.stringify(cache.revisions));
+    return;
+  }
+  const changed: PlaceHistory[] = changedPlaceIds.map((placeId) => ({
+    placeId,
+    revisions: cache.revisions[placeId] || [],
+  }));
+  enqueueWrite(async () => {
+    await putRecords(STORES.REVISIONS, changed);
+    await deleteRecords(STORES.REVISIONS, removedPlaceIds);
+    postCrossTabMessage({ kind: 'revisions', changed, removedPlaceIds });
+  });
+}
+
+// 変更があれば履歴に積む（書き込みは呼び出し側で persistRevisions する）
+function recordRevision(before: Place, after: Place, source: RevisionSource): boolean {
+  const revision = createRevision(before, after, source);
+  if (!revision) return false;
+  cache.revisions = {
+    ...cache.revisions,
+    [after.id]: appendRevision(cache.revisions[after.id], revision),
+  };
+  return true;
+}
+
+function persistOutbox(changed: OutboxEntry[], removedKeys: string[] = []): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(cache.outbox));
+    return;
+  }
+  enqueueWrite(async () => {
+    await putRecords(STORES.OUTBOX, changed);
+    await deleteRecords(STORES.OUTBOX, removedKeys);
+    postCrossTabMessage({ kind: 'outbox', changed, removedKeys });
+  });
+}
+
+function persistSyncState(): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.SYNC_STATE, JSON.stringify(cache.syncState));
+    return;
+  }
+  const syncState = cache.syncState;
+  enqueueWrite(async () => {
+    await putValue(STORES.META, META_KEYS.SYNC_STATE, syncState);
+    postCrossTabMessage({ kind: 'syncState', syncState });
+  });
+}
+
+function persistVisits(changed: Visit[], removedIds: string[] = []): void {
+  notifyListeners();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.VISITS, JSON.stringify(cache.visits));
+    return;
+  }
+  enqueueWrite(async () => {
+    await putRecords(STORES.VISITS, changed);
+    await deleteRecords(STORES.VISITS, removedIds);
+    postCrossTabMessage({ kind: 'visits', changed, removedIds });
+  });
+}
+
+function persistPhotos(changed: PlacePhoto[], removedIds: string[] = []): void {
+  notifyListeners();
+  enqueueWrite(async () => {
+    await putRecords(STORES.PHOTOS, changed);
+    await deleteRecords(STORES.PHOTOS, removedIds);
+    postCrossTabMessage({ kind: 'photos', changed, removedIds });
+  });
+}
+
+function persistVoiceMemos(changed: VoiceMemo[], removedIds: string[] = []): void {
+  notifyListeners();
+  enqueueWrite(async () => {
+    await putRecords(STORES.VOICE_MEMOS, changed);
+    await deleteRecords(STORES.VOICE_MEMOS, removedIds);
+    postCrossTabMessage({ kind: 'voiceMemos', changed, removedIds });
+  });
+}
+
+// 同期が有効なら、変更したレコードを送信待ちに積む（同じレコードは最新の1件にまとめる）
+function queueSync(type: SyncRecordType, changedIds: string[], removedIds: string[] = []): void {
+  if (!cache.settings.syncEndpoint) return;
+
+  const queuedAt = new Date().toISOString();
+  const entries: OutboxEntry[] = [
+    ...changedIds.map((id) => ({ key: `${type}:${id}`, type, id, deleted: false, queuedAt })),
+    ...removedIds.map((id) => ({ key: `${type}:${id}`, type, id, deleted: true, queuedAt })),
+  ];
+  if (entries.length === 0) return;
+
+  const keys = new Set(entries.map((e) => e.key));
+  cache.outbox = [...cache.outbox.filter((e) => !keys.has(e.key)), ...entries];
+  persistOutbox(entries);
+}
+
+interface ValidatedData {
+  places: Place[];
+  tabs: Tab[];
+  searchHistory: SearchHistory[];
+  visits: Visit[];
+  photos: PlacePhoto[];
+  voiceMemos: VoiceMemo[];
+  quarantined: QuarantinedRecord[];
+}
+
+// マイグレーション後のデータを1件ずつ確かめ、おかしなものを取り分ける
+function validateRecords(data: {
+  places: unknown[];
+  tabs: unknown[];
+  searchHistory: unknown[];
+  visits: unknown[];
+  photos?: unknown[];
+  voiceMemos?: unknown[];
+}): ValidatedData {
+  const places = partitionRecords<Place>('place', data.places);
+  const tabs = partitionRecords<Tab>('tab', data.tabs);
+  const searchHistory = partitionRecords<SearchHistory>('searchHistory', data.searchHistory);
+  const visits = partitionRecords<Visit>('visit', data.visits);
+  const photos = partitionRecords<PlacePhoto>('photo', data.photos ?? []);
+  const voiceMemos = partitionRecords<VoiceMemo>('voiceMemo', data.voiceMemos ?? []);
+  const quarantined = [
+    ...places.quarantined,
+    ...tabs.quarantined,
+    ...searchHistory.quarantined,
+    ...visits.quarantined,
+    ...photos.quarantined,
+    ...voiceMemos.quarantined,
+  ];
+  if (quarantined.length > 0) {
+    console.warn(`Quarantined ${quarantined.length} invalid record(s)`, quarantined);
+  }
+  return {
+    places: places.valid,
+    tabs: tabs.valid,
+    searchHistory: searchHistory.valid,
+    visits: visits.valid,
+    photos: photos.valid,
+    voiceMemos: voiceMemos.valid,
+    quarantined,
+  };
+}
+
+// 隔離したレコードのIDを集める（ストアから取り除くため）
+function quarantinedIds(
+  quarantined: QuarantinedRecord[],
+  kind: 'place' | 'tab' | 'visit' | 'photo' | 'voiceMemo'
+): string[] {
+  return quarantined
+    .filter((q) => q.kind === kind)
+    .map((q) => (q.record as { id?: unknown } | null)?.id)
+    .filter((id): id is string => typeof id === 'string');
+}
+
+// IDが重なっている場所の2件目以降に新しいIDをつける
+// mark を指定すると、あとで点検画面に出せるよう元のIDを残す
+function renameDuplicatePlaces(
+  places: Place[],
+  mark = false
+): { places: Place[]; separated: Place[]; duplicatedIds: Set<string> } {
+  const seenIds = new Set<string>();
+  const duplicatedIds = new Set<string>();
+  const separated: Place[] = [];
+  const renamedPlaces = places.map((place) => {
+    if (!seenIds.has(place.id)) {
+      seenIds.add(place.id);
+      return place;
+    }
+    duplicatedIds.add(place.id);
+    const renamed: Place = {
+      ...place,
+      id: uuidv4(),
+      updatedAt: new Date().toISOString(),
+      ...(mark ? { separatedFrom: place.id } : {}),
+    };
+    separated.push(renamed);
+    return renamed;
+  });
+  return { places: renamedPlaces, separated, duplicatedIds };
+}
+
+// 初回のみ、localStorageのデータをIndexedDBへ取り込む
+async function importLegacyLocalStorage(): Promise<void> {
+  const importedAt = await getValue<string>(STORES.META, META_KEYS.LEGACY_IMPORTED_AT);
+  if (importedAt) return;
+
+  const places = readLegacyJson<unknown[]>(STORAGE_KEYS.PLACES);
+  const tabs = readLegacyJson<unknown[]>(STORAGE_KEYS.TABS);
+  const searchHistory = readLegacyJson<unknown[]>(STORAGE_KEYS.SEARCH_HISTORY);
+  const settings = readLegacyJson<unknown>(STORAGE_KEYS.SETTINGS);
+
+  const migrated = migrateRecords(
+    {
+      places: Array.isArray(places) ? places : [],
+      tabs: Array.isArray(tabs) ? tabs : [],
+    },
+    0
+  );
+
+  const validated = validateRecords({
+    ...migrated,
+    searchHistory: Array.isArray(searchHistory) ? searchHistory : [],
+    visits: [],
+  });
+
+  // ストアはIDで上書きされるので、IDが重なっている場所はここで分けておく（点検画面に出す）
+  await putRecords(STORES.PLACES, renameDuplicatePlaces(validated.places, true).places);
+  await putRecords(STORES.TABS, validated.tabs);
+  await putValue(STORES.META, META_KEYS.SEARCH_HISTORY, validated.searchHistory);
+  if (validated.quarantined.length > 0) {
+    await putValue(STORES.META, META_KEYS.QUARANTINE, validated.quarantined);
+  }
+  if (settings) {
+    await putValue(STORES.META, META_KEYS.SETTINGS, sanitizeSettings(settings));
+  }
+  await putValue(STORES.META, META_KEYS.SCHEMA_VERSION, SCHEMA_VERSION);
+  await putValue(STORES.META, META_KEYS.LEGACY_IMPORTED_AT, new Date().toISOString());
+}
+
+async function loadFromDatabase(): Promise<void> {
+  const storedVersion =
+    (await getValue<number>(STORES.META, META_KEYS.SCHEMA_VERSION)) ?? 0;
+  let places = await getAllRecords<Place>(STORES.PLACES);
+  let tabs = await getAllRecords<Tab>(STORES.TABS);
+
+  if (storedVersion < SCHEMA_VERSION) {
+    const migrated = migrateRecords({ places, tabs }, storedVersion);
+    places = migrated.places;
+    tabs = migrated.tabs;
+    await putRecords(STORES.PLACES, places);
+    await putRecords(STORES.TABS, tabs);
+    await putValue(STORES.META, META_KEYS.SCHEMA_VERSION, SCHEMA_VERSION);
+  }
+
+  const validated = validateRecords({
+    places,
+    tabs,
+    searchHistory: (await getValue<unknown[]>(STORES.META, META_KEYS.SEARCH_HISTORY)) ?? [],
+    visits: await getAllRecords<unknown>(STORES.VISITS),
+    photos: await getAllRecords<unknown>(STORES.PHOTOS),
+    voiceMemos: await getAllRecords<unknown>(STORES.VOICE_MEMOS),
+  });
+  const quarantine =
+    (await getValue<QuarantinedRecord[]>(STORES.META, META_KEYS.QUARANTINE)) ?? [];
+
+  if (validated.quarantined.length > 0) {
+    // 隔離した分はストアから外し、内容は隔離の一覧に残す
+    await deleteRecords(STORES.PLACES, quarantinedIds(validated.quarantined, 'place'));
+    await deleteRecords(STORES.TABS, quarantinedIds(validated.quarantined, 'tab'));
+    await deleteRecords(STORES.VISITS, quarantinedIds(validated.quarantined, 'visit'));
+    await deleteRecords(STORES.PHOTOS, quarantinedIds(validated.quarantined, 'photo'));
+    await deleteRecords(STORES.VOICE_MEMOS, quarantinedIds(validated.quarantined, 'voiceMemo'));
+    await putValue(STORES.META, META_KEYS.SEARCH_HISTORY, validated.searchHistory);
+    quarantine.push(...validated.quarantined);
+    await putValue(STORES.META, META_KEYS.QUARANTINE, quarantine);
+  }
+
+  cache.places = validated.places;
+  cache.tabs = validated.tabs.sort((a, b) => a.order - b.order);
+  cache.searchHistory = validated.searchHistory;
+  cache.settings = sanitizeSettings(await getValue<unknown>(STORES.META, META_KEYS.SETTINGS));
+  cache.quarantine = quarantine;
+  cache.revisions = Object.fromEntries(
+    (await getAllRecords<PlaceHistory>(STORES.REVISIONS)).map((h) => [h.placeId, h.revisions])
+  );
+  cache.outbox = await getAllRecords<OutboxEntry>(STORES.OUTBOX);
+  cache.syncState =
+    (await getValue<SyncState>(STORES.META, META_KEYS.SYNC_STATE)) ?? { lastSeq: 0 };
+  cache.visits = validated.visits;
+  cache.photos = validated.photos;
+  cache.voiceMemos = validated.voiceMemos;
+}
+
+function loadFromLocalStorage(): void {
+  const places = readLegacyJson<unknown[]>(STORAGE_KEYS.PLACES);
+  const tabs = readLegacyJson<unknown[]>(STORAGE_KEYS.TABS);
+  const searchHistory = readLegacyJson<unknown[]>(STORAGE_KEYS.SEARCH_HISTORY);
+  const visits = readLegacyJson<unknown[]>(STORAGE_KEYS.VISITS);
+  const migrated = migrateRecords(
+    {
+      places: Array.isArray(places) ? places : [],
+      tabs: Array.isArray(tabs) ? tabs : [],
+    },
+    0
+  );
+  const validated = validateRecords({
+    ...migrated,
+    searchHistory: Array.isArray(searchHistory) ? searchHistory : [],
+    visits: Array.isArray(visits) ? visits : [],
+  });
+
+  cache.places = validated.places;
+  cache.tabs = validated.tabs.sort((a, b) => a.order - b.order);
+  cache.searchHistory = validated.searchHistory;
+  cache.visits = validated.visits;
+  cache.settings = sanitizeSettings(readLegacyJson<unknown>(STORAGE_KEYS.SETTINGS));
+  cache.quarantine = readLegacyJson<QuarantinedRecord[]>(STORAGE_KEYS.QUARANTINE) ?? [];
+  cache.revisions =
+    readLegacyJson<Record<string, PlaceRevision[]>>(STORAGE_KEYS.REVISIONS) ?? {};
+  cache.outbox = readLegacyJson<OutboxEntry[]>(STORAGE_KEYS.OUTBOX) ?? [];
+  cache.syncState = readLegacyJson<SyncState>(STORAGE_KEYS.SYNC_STATE) ?? { lastSeq: 0 };
+
+  if (validated.quarantined.length > 0) {
+    cache.quarantine = [...cache.quarantine, ...validated.quarantined];
+    localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(cache.places));
+    localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(cache.tabs));
+    localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify(cache.searchHistory));
+    localStorage.setItem(STORAGE_KEYS.VISITS, JSON.stringify(cache.visits));
+    localStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(cache.quarantine));
+  }
+}
+
+// 新しいデフォルトタブを既存データにマージ
+function ensureDefaultTabs(): void {
+  const existingIds = new Set(cache.tabs.map((t) => t.id));
+  const newDefaultTabs = DEFAULT_TABS.filter((t) => !existingIds.has(t.id));
+  if (newDefaultTabs.length === 0) return;
+
+  cache.tabs = [...cache.tabs, ...newDefaultTabs].sort((a, b) => a.order - b.order);
+  persistTabs(newDefaultTabs);
+}
+
+// アプリ起動時に一度だけ呼び、保存データをメモリに読み込む
+export async function initStorage(): Promise<void> {
   try {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : defaultValue;
-  } catch {
-    return defaultValue;
+    await openDatabase();
+    await importLegacyLocalStorage();
+    await loadFromDatabase();
+  } catch (error) {
+    console.error('IndexedDB is unavailable, falling back to localStorage:', error);
+    useLocalStorageFallback = true;
+    loadFromLocalStorage();
+  }
+  ensureDefaultTabs();
+  purgeExpiredTrash();
+  listenForOtherTabs();
+}
+
+// 別のタブ・ウィンドウで保存された変更をキャッシュに取り込む
+// （書き込み直すと送り返しになるので、ここでは persist を呼ばない）
+function mergeRecords<T extends { id: string }>(
+  current: T[],
+  changed: T[],
+  removedIds: string[]
+): T[] {
+  const byId = new Map(current.map((record) => [record.id, record]));
+  removedIds.forEach((id) => byId.delete(id));
+  changed.forEach((record) => byId.set(record.id, record));
+  return [...byId.values()];
+}
+
+async function applyCrossTabMessage(message: CrossTabMessage): Promise<void> {
+  switch (message.kind) {
+    case 'places':
+      cache.places = mergeRecords(cache.places, message.changed, message.removedIds);
+      break;
+    case 'tabs':
+      cache.tabs = mergeRecords(cache.tabs, message.changed, message.removedIds).sort(
+        (a, b) => a.order - b.order
+      );
+      break;
+    case 'searchHistory':
+      cache.searchHistory = message.searchHistory;
+      break;
+    case 'settings':
+      cache.settings = message.settings;
+      break;
+    case 'quarantine':
+      cache.quarantine = message.quarantine;
+      break;
+    case 'revisions': {
+      const revisions = { ...cache.revisions };
+      message.removedPlaceIds.forEach((placeId) => delete revisions[placeId]);
+      message.changed.forEach((h) => {
+        revisions[h.placeId] = h.revisions;
+      });
+      cache.revisions = revisions;
+      break;
+    }
+    case 'outbox': {
+      const removed = new Set([...message.removedKeys, ...message.changed.map((e) => e.key)]);
+      cache.outbox = [...cache.outbox.filter((e) => !removed.has(e.key)), ...message.changed];
+      break;
+    }
+    case 'syncState':
+      cache.syncState = message.syncState;
+      break;
+    case 'visits':
+      cache.visits = mergeRecords(cache.visits, message.changed, message.removedIds);
+      break;
+    case 'photos':
+      cache.photos = mergeRecords(cache.photos, message.changed, message.removedIds);
+      break;
+    case 'voiceMemos':
+      cache.voiceMemos = mergeRecords(cache.voiceMemos, message.changed, message.removedIds);
+      break;
+    case 'reload':
+      // 自分の書き込みが終わってから読み込み直す
+      await flushWrites();
+      await loadFromDatabase();
+      break;
   }
+  notifyListeners();
+}
+
+// localStorage保存のときは storage イベントで変更を受け取る（key が null なら全消去）
+function applyLegacyStorageEvent(event: StorageEvent): void {
+  const keys: (string | null)[] = [...Object.values(STORAGE_KEYS), null];
+  if (!keys.includes(event.key)) return;
+  loadFromLocalStorage();
+  notifyListeners();
+}
+
+function listenForOtherTabs(): void {
+  if (useLocalStorageFallback) {
+    window.addEventListener('storage', applyLegacyStorageEvent);
+  } else {
+    listenCrossTab((message) => {
+      applyCrossTabMessage(message).catch((error) => {
+        console.error('Failed to apply changes from another tab:', error);
+      });
+    });
+  }
+}
+
+// 元の配列が変わったときだけ計算し直す（useSyncExternalStoreに同じ参照を返すため）
+function memoizeBySource<S, T>(compute: (source: S) => T): (source: S) => T {
+  let lastSource: S | undefined;
+  let last: T;
+  return (source) => {
+    if (source !== lastSource) {
+      lastSource = source;
+      last = compute(source);
+    }
+    return last;
+  };
 }
 
+const selectActivePlaces = memoizeBySource((places: Place[]) => places.filter((p) => !p.deletedAt));
+const selectDeletedPlaces = memoizeBySource((places: Place[]) => places.filter((p) => p.deletedAt));
+const selectActiveTabs = memoizeBySource((tabs: Tab[]) => tabs.filter((t) => !t.deletedAt));
+const selectCustomTabs = memoizeBySource((tabs: Tab[]) => tabs.filter((t) => t.isCustom));
+const selectDeletedTabs = memoizeBySource((tabs: Tab[]) => tabs.filter((t) => t.deletedAt));
+const NO_REVISIONS: PlaceRevision[] = [];
+// 場所IDごとに、古い順にまとめる
+const groupByPlace = <T extends { placeId: string; createdAt: string }>(records: T[]) => {
+  const byPlace: Record<string, T[]> = {};
+  [...records]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((record) => {
+      byPlace[record.placeId] = [...(byPlace[record.placeId] ?? []), record];
+    });
+  return byPlace;
+};
+const NO_PHOTOS: PlacePhoto[] = [];
+const selectPhotosByPlace = memoizeBySource((photos: PlacePhoto[]) => groupByPlace(photos));
+const NO_VOICE_MEMOS: VoiceMemo[] = [];
+const selectVoiceMemosByPlace = memoizeBySource((memos: VoiceMemo[]) => groupByPlace(memos));
+const selectVisitStats = memoizeBySource((visits: Visit[]) => {
+  const stats: Record<string, VisitStats> = {};
+  visits.forEach((visit) => {
+    const current = stats[visit.placeId];
+    stats[visit.placeId] = {
+      count: (current?.count ?? 0) + 1,
+      navigationCount: (current?.navigationCount ?? 0) + (visit.source === 'navigation' ? 1 : 0),
+      lastVisitedAt:
+        current && current.lastVisitedAt > visit.visitedAt ? current.lastVisitedAt : visit.visitedAt,
+    };
+  });
+  return stats;
+});
+
 // Places
 export function getPlaces(): Place[] {
-  return safeJsonParse<Place[]>(STORAGE_KEYS.PLACES, []);
+  return selectActivePlaces(cache.places);
 }
 
 export function savePlace(place: Omit<Place, 'id' | 'createdAt' | 'updatedAt'>): Place {
-  const places = getPlaces();
   const now = new Date().toISOString();
   const newPlace: Place = {
     ...place,
     id: uuidv4(),
     createdAt: now,
     updatedAt: now,
+    editedAt: now,
   };
-  places.push(newPlace);
-  localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(places));
+  cache.places = [...cache.places, newPlace];
+  persistPlaces([newPlace]);
   return newPlace;
 }
 
 export function updatePlace(
   id: string,
-  updates: Partial<Omit<Place, 'id' | 'createdAt'>>
+  updates: Partial<Omit<Place, 'id' | 'createdAt'>>,
+  source: RevisionSource = 'edit'
 ): Place | null {
-  const places = getPlaces();
-  const index = places.findIndex((p) => p.id === id);
+  const index = cache.places.findIndex((p) => p.id === id);
   if (index === -1) return null;
 
+  const previous = cache.places[index];
   const updatedPlace: Place = {
-    ...places[index],
+    ...previous,
     ...updates,
     updatedAt: new Date().toISOString(),
   };
-  places[index] = updatedPlace;
-  localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(places));
+  cache.places = cache.places.map((p, i) => (i === index ? updatedPlace : p));
+  persistPlaces([updatedPlace]);
+  if (recordRevision(previous, updatedPlace, source)) {
+    persistRevisions([id]);
+  }
   return updatedPlace;
 }
 
+export function getPlaceRevisions(placeId: string): PlaceRevision[] {
+  return cache.revisions[placeId] ?? NO_REVISIONS;
+}
+
+// 指定した変更より前の内容に戻す（戻したこと自体も履歴に残る）
+export function restorePlaceRevision(placeId: string, revisionId: string): Place | null {
+  const place = cache.places.find((p) => p.id === placeId);
+  if (!place) return null;
+
+  const fields = fieldsBeforeRevision(place, getPlaceRevisions(placeId), revisionId);
+  if (!fields) return null;
+  return updatePlace(placeId, { ...fields, editedAt: new Date().toISOString() }, 'restore');
+}
+
+// ゴミ箱に移す（purgePlaceで完全に削除）
 export function deletePlace(id: string): boolean {
-  const places = getPlaces();
-  const filtered = places.filter((p) => p.id !== id);
-  if (filtered.length === places.length) return false;
+  const place = getPlaceById(id);
+  if (!place) return false;
 
-  localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(filtered));
+  updatePlace(id, { deletedAt: new Date().toISOString() });
   return true;
 }
 
@@ -69,84 +755,229 @@ export function getPlaceById(id: string): Place | undefined {
   return getPlaces().find((p) => p.id === id);
 }
 
-// Tabs
-export function getTabs(): Tab[] {
-  const storedTabs = safeJsonParse<Tab[]>(STORAGE_KEYS.TABS, []);
+// Trash
+export function getDeletedPlaces(): Place[] {
+  return selectDeletedPlaces(cache.places);
+}
+
+export function restorePlace(id: string): Place | null {
+  const place = cache.places.find((p) => p.id === id && p.deletedAt);
+  if (!place) return null;
 
-  if (storedTabs.length === 0) {
-    localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(DEFAULT_TABS));
-    return DEFAULT_TABS;
+  // ゴミ箱にある間にお気に入りがいっぱいになっていたら、お気に入りからは外す
+  if (
+    cache.settings.favoritePlaceIds.includes(id) &&
+    countActiveFavorites() >= FAVORITE_LIMIT
+  ) {
+    removeFavorite(id);
   }
 
-  // 新しいデフォルトタブを既存データにマージ
-  const existingIds = new Set(storedTabs.map(t => t.id));
-  const newDefaultTabs = DEFAULT_TABS.filter(t => !existingIds.has(t.id));
+  // 無くなったカテゴリのタグは外す
+  const tabIds = new Set(getTabs().map((t) => t.id));
+  return updatePlace(id, {
+    deletedAt: undefined,
+    tagIds: place.tagIds.filter((tagId) => tabIds.has(tagId)),
+  });
+}
 
-  if (newDefaultTabs.length > 0) {
-    const mergedTabs = [...storedTabs, ...newDefaultTabs].sort((a, b) => a.order - b.order);
-    localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(mergedTabs));
-    return mergedTabs;
+// 完全に消した場所の訪問の記録・写真・声のメモ・お気に入りを消す
+function removePlaceAttachments(placeIds: string[]): void {
+  const removed = new Set(placeIds);
+  if (removed.size === 0) return;
+
+  const visitIds = cache.visits.filter((v) => removed.has(v.placeId)).map((v) => v.id);
+  if (visitIds.length > 0) {
+    cache.visits = cache.visits.filter((v) => !removed.has(v.placeId));
+    persistVisits([], visitIds);
+  }
+  const photoIds = cache.photos.filter((p) => removed.has(p.placeId)).map((p) => p.id);
+  if (photoIds.length > 0) {
+    cache.photos = cache.photos.filter((p) => !removed.has(p.placeId));
+    persistPhotos([], photoIds);
   }
+  const voiceMemoIds = cache.voiceMemos.filter((m) => removed.has(m.placeId)).map((m) => m.id);
+  if (voiceMemoIds.length > 0) {
+    cache.voiceMemos = cache.voiceMemos.filter((m) => !removed.has(m.placeId));
+    persistVoiceMemos([], voiceMemoIds);
+  }
+  const { favoritePlaceIds } = cache.settings;
+  if (favoritePlaceIds.some((id) => removed.has(id))) {
+    updateSettings({ favoritePlaceIds: favoritePlaceIds.filter((id) => !removed.has(id)) });
+  }
+}
+
+export function purgePlace(id: string): boolean {
+  const filtered = cache.places.filter((p) => p.id !== id);
+  if (filtered.length === cache.places.length) return false;
+
+  cache.places = filtered;
+  persistPlaces([], [id]);
+  removePlaceAttachments([id]);
+  if (cache.revisions[id]) {
+    const revisions = { ...cache.revisions };
+    delete revisions[id];
+    cache.revisions = revisions;
+    persistRevisions([], [id]);
+  }
+  return true;
+}
+
+export function getDeletedTabs(): Tab[] {
+  return selectDeletedTabs(cache.tabs);
+}
+
+export function restoreTab(id: string): Tab | null {
+  const tab = cache.tabs.find((t) => t.id === id && t.deletedAt);
+  if (!tab) return null;
+  if (getCustomTabs().length >= cache.settings.customTabLimit) return null;
+
+  const restoredTab: Tab = {
+    ...tab,
+    deletedAt: undefined,
+    deletedPlaceIds: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+  cache.tabs = cache.tabs.map((t) => (t.id === id ? restoredTab : t));
+  persistTabs([restoredTab]);
+
+  // 削除したときにタグを外した場所に、もう一度つける
+  const memberIds = new Set(tab.deletedPlaceIds || []);
+  const now = new Date().toISOString();
+  const retagged: Place[] = [];
+  cache.places = cache.places.map((p) => {
+    if (!memberIds.has(p.id) || p.tagIds.includes(id)) return p;
+    const updated = { ...p, tagIds: [...p.tagIds, id], updatedAt: now };
+    retagged.push(updated);
+    return updated;
+  });
+  persistPlaces(retagged);
+
+  return restoredTab;
+}
+
+export function purgeTab(id: string): boolean {
+  const tab = cache.tabs.find((t) => t.id === id && t.deletedAt);
+  if (!tab) return false;
+
+  cache.tabs = cache.tabs.filter((t) => t.id !== id);
+  persistTabs([], [id]);
+  return true;
+}
 
-  return storedTabs;
+export function emptyTrash(): void {
+  getDeletedPlaces().forEach((p) => purgePlace(p.id));
+  getDeletedTabs().forEach((t) => purgeTab(t.id));
+}
+
+// 保存期間を過ぎたものを完全に削除する
+function purgeExpiredTrash(): void {
+  const days = cache.settings.trashRetentionDays;
+  if (!days) return;
+
+  const threshold = Date.now() - days * 24 * 60 * 60 * 1000;
+  const isExpired = (deletedAt?: string) =>
+    !!deletedAt && new Date(deletedAt).getTime() < threshold;
+
+  cache.places.filter((p) => isExpired(p.deletedAt)).forEach((p) => purgePlace(p.id));
+  cache.tabs.filter((t) => isExpired(t.deletedAt)).forEach((t) => purgeTab(t.id));
+}
+
+// Tabs
+export function getTabs(): Tab[] {
+  return selectActiveTabs(cache.tabs);
 }
 
 export function getCustomTabs(): Tab[] {
-  return getTabs().filter((t) => t.isCustom);
+  return selectCustomTabs(getTabs());
 }
 
-export function addCustomTab(name: string): Tab | null {
-  const tabs = getTabs();
-  const customTabs = tabs.filter((t) => t.isCustom);
-  if (customTabs.length >= 5) return null;
+export type TabStyle = Pick<Tab, 'icon' | 'color'>;
+// スマートリストのときは条件も渡す
+export type TabOptions = TabStyle & Pick<Tab, 'rules' | 'ruleMatch'>;
 
-  const maxOrder = Math.max(...tabs.map((t) => t.order));
+export function addCustomTab(name: string, options: TabOptions = {}): Tab | null {
+  const customTabs = getCustomTabs();
+  if (customTabs.length >= cache.settings.customTabLimit) return null;
+
+  // ゴミ箱のカテゴリとも順番が重ならないようにする
+  const maxOrder = Math.max(...cache.tabs.map((t) => t.order));
   const newTab: Tab = {
     id: uuidv4(),
     name,
     isCustom: true,
     order: maxOrder + 1,
+    ...options,
+    updatedAt: new Date().toISOString(),
   };
-  tabs.push(newTab);
-  localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(tabs));
+  cache.tabs = [...cache.tabs, newTab];
+  persistTabs([newTab]);
   return newTab;
 }
 
-export function updateTab(id: string, name: string): Tab | null {
-  const tabs = getTabs();
-  const index = tabs.findIndex((t) => t.id === id && t.isCustom);
+// 標準カテゴリも名前・絵文字・色を変えたり隠したりできる（「すべて」は除く）
+export function updateTab(
+  id: string,
+  changes: Partial<Pick<Tab, 'name' | 'hidden'> & TabOptions>
+): Tab | null {
+  const index = cache.tabs.findIndex((t) => t.id === id && t.id !== 'all' && !t.deletedAt);
   if (index === -1) return null;
 
-  tabs[index] = { ...tabs[index], name };
-  localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(tabs));
-  return tabs[index];
+  const updatedTab: Tab = { ...cache.tabs[index], ...changes, updatedAt: new Date().toISOString() };
+  cache.tabs = cache.tabs.map((t, i) => (i === index ? updatedTab : t));
+  persistTabs([updatedTab]);
+  return updatedTab;
 }
 
+// 並べ替えたカテゴリの順に order を振り直す（「すべて」は先頭のまま）
+export function reorderTabs(orderedIds: string[]): void {
+  const now = new Date().toISOString();
+  const orders = new Map(orderedIds.filter((id) => id !== 'all').map((id, i) => [id, i + 1]));
+  const changed: Tab[] = [];
+  cache.tabs = cache.tabs
+    .map((t) => {
+      const order = orders.get(t.id);
+      if (order === undefined || order === t.order) return t;
+      const reordered = { ...t, order, updatedAt: now };
+      changed.push(reordered);
+      return reordered;
+    })
+    .sort((a, b) => a.order - b.order);
+  persistTabs(changed);
+}
+
+// カテゴリをゴミ箱に移す。ついていた場所からはタグを外す（場所そのものは残る）
 export function deleteTab(id: string): boolean {
-  const tabs = getTabs();
-  const tab = tabs.find((t) => t.id === id);
+  const tab = getTabs().find((t) => t.id === id);
   if (!tab || !tab.isCustom) return false;
 
-  const filtered = tabs.filter((t) => t.id !== id);
-  localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(filtered));
+  const now = new Date().toISOString();
+  const untagged: Place[] = [];
+  cache.places = cache.places.map((p) => {
+    if (!p.tagIds.includes(id)) return p;
+    const updated = { ...p, tagIds: p.tagIds.filter((tagId) => tagId !== id), updatedAt: now };
+    untagged.push(updated);
+    return updated;
+  });
+  persistPlaces(untagged);
 
-  // Move places from deleted tab to 'frequent'
-  const places = getPlaces();
-  const updatedPlaces = places.map((p) =>
-    p.tabId === id ? { ...p, tabId: 'frequent', updatedAt: new Date().toISOString() } : p
-  );
-  localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(updatedPlaces));
+  const deletedTab: Tab = {
+    ...tab,
+    deletedAt: now,
+    deletedPlaceIds: untagged.map((p) => p.id),
+    updatedAt: now,
+  };
+  cache.tabs = cache.tabs.map((t) => (t.id === id ? deletedTab : t));
+  persistTabs([deletedTab]);
 
   return true;
 }
 
 // Search History
 export function getSearchHistory(): SearchHistory[] {
-  return safeJsonParse<SearchHistory[]>(STORAGE_KEYS.SEARCH_HISTORY, []);
+  return cache.searchHistory;
 }
 
 export function addSearchHistory(query: string, placeId?: string): void {
-  const history = getSearchHistory();
   const newEntry: SearchHistory = {
     query,
     placeId,
@@ -154,25 +985,576 @@ export function addSearchHistory(query: string, placeId?: string): void {
   };
 
   // Remove duplicate queries and keep only last 20
-  const filtered = history.filter((h) => h.query !== query);
-  filtered.unshift(newEntry);
-  const limited = filtered.slice(0, 20);
-
-  localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify(limited));
+  const filtered = cache.searchHistory.filter((h) => h.query !== query);
+  cache.searchHistory = [newEntry, ...filtered].slice(0, 20);
+  persistSearchHistory();
 }
 
 export function clearSearchHistory(): void {
-  localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify([]));
+  cache.searchHistory = [];
+  persistSearchHistory();
+}
+
+// Visits
+export function getVisits(): Visit[] {
+  return cache.visits;
+}
+
+// 場所IDごとの訪問回数と最後に行った日時
+export function getVisitStats(): Record<string, VisitStats> {
+  return selectVisitStats(cache.visits);
+}
+
+export function recordVisit(
+  placeId: string,
+  source: VisitSource,
+  travelMode?: AppSettings['travelMode']
+): Visit {
+  const visit: Visit = {
+    id: uuidv4(),
+    placeId,
+    visitedAt: new Date().toISOString(),
+    source,
+    ...(travelMode ? { travelMode } : {}),
+  };
+  cache.visits = [...cache.visits, visit];
+  persistVisits([visit]);
+
+  // また出かけるときのために、持ち物・やることのチェックを外す
+  const place = getPlaceById(placeId);
+  if (
+    source === 'navigation' &&
+    place?.resetChecklistOnNavigate &&
+    place.checklist?.some((item) => item.checked)
+  ) {
+    updatePlace(placeId, { checklist: uncheckAll(place.checklist) });
+  }
+  return visit;
+}
+
+export function deleteVisit(id: string): boolean {
+  const filtered = cache.visits.filter((v) => v.id !== id);
+  if (filtered.length === cache.visits.length) return false;
+
+  cache.visits = filtered;
+  persistVisits([], [id]);
+  return true;
+}
+
+// Photos
+export function getPlacePhotos(placeId: string): PlacePhoto[] {
+  return selectPhotosByPlace(cache.photos)[placeId] ?? NO_PHOTOS;
+}
+
+// 編集画面で選んだ写真に置き換える（足した分を保存し、外した分を消す）
+export function setPlacePhotos(placeId: string, photos: PlacePhoto[]): void {
+  if (useLocalStorageFallback) {
+    if (photos.length > 0) throw new Error('この端末では写真を保存できません');
+    return;
+  }
+  const current = getPlacePhotos(placeId);
+  const currentIds = new Set(current.map((p) => p.id));
+  const added = photos
+    .filter((photo) => !currentIds.has(photo.id))
+    .map((photo) => ({ ...photo, placeId }));
+  const keepIds = new Set(photos.map((p) => p.id));
+  const removedIds = current.filter((p) => !keepIds.has(p.id)).map((p) => p.id);
+  if (added.length === 0 && removedIds.length === 0) return;
+
+  cache.photos = [...cache.photos.filter((p) => !removedIds.includes(p.id)), ...added];
+  persistPhotos(added, removedIds);
+}
+
+// Voice memos
+export function getPlaceVoiceMemos(placeId: string): VoiceMemo[] {
+  return selectVoiceMemosByPlace(cache.voiceMemos)[placeId] ?? NO_VOICE_MEMOS;
+}
+
+// 編集画面で残した録音に置き換える（写真と同じく保存するときにまとめて反映）
+export function setPlaceVoiceMemos(placeId: string, memos: VoiceMemo[]): void {
+  if (useLocalStorageFallback) {
+    if (memos.length > 0) throw new Error('この端末では録音を保存できません');
+    return;
+  }
+  const current = getPlaceVoiceMemos(placeId);
+  const currentIds = new Set(current.map((m) => m.id));
+  const added = memos
+    .filter((memo) => !currentIds.has(memo.id))
+    .map((memo) => ({ ...memo, placeId }));
+  const keepIds = new Set(memos.map((m) => m.id));
+  const removedIds = current.filter((m) => !keepIds.has(m.id)).map((m) => m.id);
+  if (added.length === 0 && removedIds.length === 0) return;
+
+  cache.voiceMemos = [...cache.voiceMemos.filter((m) => !removedIds.includes(m.id)), ...added];
+  persistVoiceMemos(added, removedIds);
+}
+
+// 写真・録音はIndexedDBが使えるときだけ保存できる
+export function canStoreMedia(): boolean {
+  return !useLocalStorageFallback;
 }
 
 // Settings
 export function getSettings(): AppSettings {
-  return safeJsonParse<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS);
+  return cache.settings;
 }
 
 export function updateSettings(updates: Partial<AppSettings>): AppSettings {
-  const settings = getSettings();
-  const newSettings = { ...settings, ...updates };
-  localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(newSettings));
-  return newSettings;
+  cache.settings = { ...cache.settings, ...updates };
+  persistSettings();
+  return cache.settings;
+}
+
+// Favorites
+// ホームの大きなボタンは押しやすさを優先して数を絞る
+export const FAVORITE_LIMIT = 5;
+
+// ゴミ箱の場所はホームに出ないので数えない
+function countActiveFavorites(): number {
+  const activeIds = new Set(selectActivePlaces(cache.places).map((p) => p.id));
+  return cache.settings.favoritePlaceIds.filter((id) => activeIds.has(id)).length;
+}
+
+export function addFavorite(placeId: string): boolean {
+  const { favoritePlaceIds } = cache.settings;
+  if (favoritePlaceIds.includes(placeId)) return true;
+  if (countActiveFavorites() >= FAVORITE_LIMIT) return false;
+
+  updateSettings({ favoritePlaceIds: [...favoritePlaceIds, placeId] });
+  return true;
+}
+
+export function removeFavorite(placeId: string): boolean {
+  const { favoritePlaceIds } = cache.settings;
+  if (!favoritePlaceIds.includes(placeId)) return false;
+
+  updateSettings({ favoritePlaceIds: favoritePlaceIds.filter((id) => id !== placeId) });
+  return true;
+}
+
+// ゴミ箱に入っていて並べ替えに出てこなかった場所は最後に残す
+export function reorderFavorites(orderedIds: string[]): void {
+  const { favoritePlaceIds } = cache.settings;
+  updateSettings({
+    favoritePlaceIds: [
+      ...orderedIds.filter((id) => favoritePlaceIds.includes(id)),
+      ...favoritePlaceIds.filter((id) => !orderedIds.includes(id)),
+    ],
+  });
+}
+
+// Bulk data (backup / restore)
+// 読み込めずに隔離したレコード
+export function getQuarantine(): QuarantinedRecord[] {
+  return cache.quarantine;
+}
+
+export function clearQuarantine(): void {
+  cache.quarantine = [];
+  persistQuarantine();
+}
+
+// 同じIDの場所が複数あるとき、2件目以降に新しいIDを振って別の場所として残す
+export function separateDuplicatePlaces(): number {
+  const { places, separated, duplicatedIds } = renameDuplicatePlaces(cache.places);
+  if (separated.length === 0) return 0;
+
+  cache.places = places;
+
+  // ストア上では後から書いた方が残っているので、1件目も書き直す
+  const originals = cache.places.filter((p) => duplicatedIds.has(p.id));
+  persistPlaces([...originals, ...separated]);
+  return separated.length;
+}
+
+// ---- 同期 ----
+// 通信は sync.ts が行い、ここでは送信待ちの管理と受け取った変更の反映を行う
+
+export function getOutbox(): OutboxEntry[] {
+  return cache.outbox;
+}
+
+export function getSyncState(): SyncState {
+  return cache.syncState;
+}
+
+export function updateSyncState(updates: Partial<SyncState>): void {
+  cache.syncState = { ...cache.syncState, ...updates };
+  persistSyncState();
+}
+
+export interface PendingChange extends OutboxEntry {
+  record?: Place | Tab;
+}
+
+export function getPendingChanges(): PendingChange[] {
+  return cache.outbox.map((entry) => {
+    const record =
+      entry.type === 'place'
+        ? cache.places.find((p) => p.id === entry.id)
+        : cache.tabs.find((t) => t.id === entry.id);
+    // 見つからなければ削除として送る
+    return record && !entry.deleted ? { ...entry, record } : { ...entry, deleted: true };
+  });
+}
+
+// サーバーが受け付けた変更を送信待ちから外し、サーバー上の版を記録する
+// 送っている間にまた変更されたもの（queuedAt が変わったもの）は残して次回送る
+export function completeSyncedChanges(acks: { entry: OutboxEntry; version: number }[]): void {
+  const versions = new Map(acks.map(({ entry, version }) => [entry.key, version]));
+  const removedKeys = acks
+    .filter(({ entry }) => cache.outbox.some((e) => e.key === entry.key && e.queuedAt === entry.queuedAt))
+    .map(({ entry }) => entry.key);
+
+  const changedPlaces: Place[] = [];
+  cache.places = cache.places.map((p) => {
+    const version = versions.get(`place:${p.id}`);
+    if (version === undefined || p.version === version) return p;
+    const synced = { ...p, version };
+    changedPlaces.push(synced);
+    return synced;
+  });
+  const changedTabs: Tab[] = [];
+  cache.tabs = cache.tabs.map((t) => {
+    const version = versions.get(`tab:${t.id}`);
+    if (version === undefined || t.version === version) return t;
+    const synced = { ...t, version };
+    changedTabs.push(synced);
+    return synced;
+  });
+
+  if (changedPlaces.length > 0) persistPlaces(changedPlaces, [], false);
+  if (changedTabs.length > 0) persistTabs(changedTabs, [], false);
+  if (removedKeys.length > 0) {
+    const removed = new Set(removedKeys);
+    cache.outbox = cache.outbox.filter((e) => !removed.has(e.key));
+    persistOutbox([], removedKeys);
+  }
+}
+
+// 受け取った変更を取り込むか決める
+// 送信待ちの変更と重なったときは更新日時の新しい方を残す（同じなら相手を優先）
+function shouldTakeRemote(
+  local: Place | Tab | undefined,
+  change: RemoteChange,
+  pending: OutboxEntry | undefined
+): boolean {
+  if (pending?.deleted) return false;
+  if (change.deleted) return !!local;
+  if (pending && local) {
+    return (local.updatedAt ?? '') <= ((change.record as Place | Tab).updatedAt ?? '');
+  }
+  return !local || (local.version ?? 0) < change.version;
+}
+
+// サーバーから受け取った変更を反映する。反映した件数を返す
+export function applyRemoteChanges(changes: RemoteChange[]): number {
+  const pendingByKey = new Map(cache.outbox.map((e) => [e.key, e]));
+  const placesById = new Map(cache.places.map((p) => [p.id, p]));
+  const tabsById = new Map(cache.tabs.map((t) => [t.id, t]));
+  const changedPlaces: Place[] = [];
+  const changedTabs: Tab[] = [];
+  const removedPlaceIds: string[] = [];
+  const removedTabIds: string[] = [];
+  const droppedKeys: string[] = [];
+  const revisedIds: string[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  changes.forEach((received) => {
+    // 古い版のアプリから届いた場所（カテゴリが1つの形）はタグの形にそろえる
+    const migrated =
+      received.type === 'place' && !received.deleted
+        ? migrateRecords({ places: [received.record], tabs: [] }, 1).places[0]
+        : undefined;
+    const change = migrated ? { ...received, record: migrated } : received;
+    const key = `${change.type}:${change.id}`;
+    const pending = pendingByKey.get(key);
+    const local = change.type === 'place' ? placesById.get(change.id) : tabsById.get(change.id);
+
+    if (!change.deleted) {
+      const reasons =
+        change.type === 'place' ? validatePlace(change.record) : validateTab(change.record);
+      if (reasons.length > 0) {
+        quarantined.push({
+          kind: change.type,
+          record: change.record,
+          reasons,
+          quarantinedAt: new Date().toISOString(),
+        });
+        return;
+      }
+    }
+    if (!shouldTakeRemote(local, change, pending)) return;
+    if (pending) droppedKeys.push(key);
+
+    if (change.type === 'place') {
+      if (change.deleted) {
+        placesById.delete(change.id);
+        removedPlaceIds.push(change.id);
+        return;
+      }
+      const place = { ...(change.record as Place), version: change.version };
+      if (local && recordRevision(local as Place, place, 'sync')) revisedIds.push(place.id);
+      placesById.set(place.id, place);
+      changedPlaces.push(place);
+    } else {
+      if (change.deleted) {
+        tabsById.delete(change.id);
+        removedTabIds.push(change.id);
+        return;
+      }
+      const tab = { ...(change.record as Tab), version: change.version };
+      tabsById.set(tab.id, tab);
+      changedTabs.push(tab);
+    }
+  });
+
+  if (changedPlaces.length > 0 || removedPlaceIds.length > 0) {
+    cache.places = [...placesById.values()];
+    persistPlaces(changedPlaces, removedPlaceIds, false);
+  }
+  removePlaceAttachments(removedPlaceIds);
+  if (changedTabs.length > 0 || removedTabIds.length > 0) {
+    cache.tabs = [...tabsById.values()].sort((a, b) => a.order - b.order);
+    persistTabs(changedTabs, removedTabIds, false);
+  }
+  const removedRevisions = removedPlaceIds.filter((id) => cache.revisions[id]);
+  if (removedRevisions.length > 0) {
+    const revisions = { ...cache.revisions };
+    removedRevisions.forEach((id) => delete revisions[id]);
+    cache.revisions = revisions;
+  }
+  if (revisedIds.length > 0 || removedRevisions.length > 0) {
+    persistRevisions(revisedIds, removedRevisions);
+  }
+  if (droppedKeys.length > 0) {
+    const dropped = new Set(droppedKeys);
+    cache.outbox = cache.outbox.filter((e) => !dropped.has(e.key));
+    persistOutbox([], droppedKeys);
+  }
+  if (quarantined.length > 0) {
+    cache.quarantine = [...cache.quarantine, ...quarantined];
+    persistQuarantine();
+  }
+
+  return changedPlaces.length + changedTabs.length + removedPlaceIds.length + removedTabIds.length;
+}
+
+// 同期の接続先を設定する
+// 接続先が変わったら最初から受け取り直し、手元のデータをすべて送り直す
+export function configureSync(endpoint: string, token: string): void {
+  const endpointChanged = endpoint !== cache.settings.syncEndpoint;
+  updateSettings({ syncEndpoint: endpoint, syncToken: token });
+  if (!endpointChanged) return;
+
+  cache.syncState = { lastSeq: 0 };
+  persistSyncState();
+
+  const removedKeys = cache.outbox.map((e) => e.key);
+  cache.outbox = [];
+  persistOutbox([], removedKeys);
+
+  // 前の接続先での版は使えないので消しておく
+  const resetPlaces = cache.places.filter((p) => p.version !== undefined);
+  const resetTabs = cache.tabs.filter((t) => t.version !== undefined);
+  cache.places = cache.places.map((p) => (p.version === undefined ? p : { ...p, version: undefined }));
+  cache.tabs = cache.tabs.map((t) => (t.version === undefined ? t : { ...t, version: undefined }));
+  if (resetPlaces.length > 0) {
+    persistPlaces(cache.places.filter((p) => resetPlaces.some((r) => r.id === p.id)), [], false);
+  }
+  if (resetTabs.length > 0) {
+    persistTabs(cache.tabs.filter((t) => resetTabs.some((r) => r.id === t.id)), [], false);
+  }
+
+  if (endpoint) {
+    queueSync('place', cache.places.map((p) => p.id));
+    queueSync('tab', cache.tabs.map((t) => t.id));
+  }
+}
+
+export interface StoredData {
+  places: Place[];
+  tabs: Tab[];
+  searchHistory: SearchHistory[];
+  settings: AppSettings;
+  visits: Visit[];
+}
+
+export function getAllData(): StoredData {
+  return {
+    places: cache.places,
+    tabs: cache.tabs,
+    searchHistory: cache.searchHistory,
+    settings: cache.settings,
+    visits: cache.visits,
+  };
+}
+
+// 端末の引っ越し用：STORAGE_KEYS にあるものすべて
+export interface DeviceSnapshot extends StoredData {
+  quarantine: QuarantinedRecord[];
+  revisions: Record<string, PlaceRevision[]>;
+  outbox: OutboxEntry[];
+  syncState: SyncState;
+}
+
+export function getDeviceSnapshot(): DeviceSnapshot {
+  return {
+    ...getAllData(),
+    quarantine: cache.quarantine,
+    revisions: cache.revisions,
+    outbox: cache.outbox,
+    syncState: cache.syncState,
+  };
+}
+
+// 今のデータをすべて引っ越し元のものに置き換える
+export async function restoreDeviceSnapshot(snapshot: DeviceSnapshot): Promise<void> {
+  const quarantineBefore = cache.quarantine.length;
+  // 同期の設定は引っ越し先のものを使い続ける（引っ越し元の接続先と合言葉は運ばない）
+  const { syncEndpoint, syncToken } = cache.settings;
+  await importData(
+    { ...snapshot, settings: { ...snapshot.settings, syncEndpoint: '', syncToken: '' } },
+    'replace'
+  );
+
+  // 取り込みで壊れていると分かったものだけ残し、あとは引っ越し元のものにする
+  cache.quarantine = [...snapshot.quarantine, ...cache.quarantine.slice(quarantineBefore)];
+  persistQuarantine();
+
+  // 履歴・送信待ち・同期の状態も引っ越し元のものに置き換える
+  const placeIds = new Set(cache.places.map((p) => p.id));
+  const staleRevisionIds = Object.keys(cache.revisions);
+  cache.revisions = Object.fromEntries(
+    Object.entries(snapshot.revisions).filter(
+      ([placeId, revisions]) => placeIds.has(placeId) && Array.isArray(revisions)
+    )
+  );
+  persistRevisions(
+    Object.keys(cache.revisions),
+    staleRevisionIds.filter((id) => !cache.revisions[id])
+  );
+
+  const staleOutboxKeys = cache.outbox.map((e) => e.key);
+  cache.outbox = snapshot.outbox;
+  const outboxKeys = new Set(cache.outbox.map((e) => e.key));
+  persistOutbox(cache.outbox, staleOutboxKeys.filter((key) => !outboxKeys.has(key)));
+
+  cache.syncState = snapshot.syncState;
+  persistSyncState();
+
+  // 引っ越し元の同期の状態は引っ越し先の接続先では使えないので、最初から同期し直す
+  if (syncEndpoint) configureSync(syncEndpoint, syncToken);
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// replace: 今のデータをすべて置き換える
+// merge: IDが同じものは更新日時が新しい方を残し、それ以外は追加する
+export async function importData(data: StoredData, mode: ImportMode): Promise<void> {
+  const validated = validateRecords(data);
+  if (validated.quarantined.length > 0) {
+    cache.quarantine = [...cache.quarantine, ...validated.quarantined];
+    persistQuarantine();
+  }
+  const incoming = { ...validated, settings: sanitizeSettings(data.settings) };
+  const previousPlaces = new Map(cache.places.map((p) => [p.id, p]));
+  const previousTabs = new Map(cache.tabs.map((t) => [t.id, t]));
+
+  if (mode === 'replace') {
+    cache.places = incoming.places;
+    cache.tabs = [...incoming.tabs].sort((a, b) => a.order - b.order);
+    cache.searchHistory = incoming.searchHistory.slice(0, 20);
+    cache.settings = incoming.settings;
+    cache.visits = incoming.visits;
+  } else {
+    const placesById = new Map(cache.places.map((p) => [p.id, p]));
+    incoming.places.forEach((place) => {
+      const existing = placesById.get(place.id);
+      if (!existing || new Date(place.updatedAt) > new Date(existing.updatedAt)) {
+        placesById.set(place.id, place);
+      }
+    });
+    cache.places = [...placesById.values()];
+
+    const existingTabIds = new Set(cache.tabs.map((t) => t.id));
+    cache.tabs = [...cache.tabs, ...incoming.tabs.filter((t) => !existingTabIds.has(t.id))].sort(
+      (a, b) => a.order - b.order
+    );
+
+    const existingQueries = new Set(cache.searchHistory.map((h) => h.query));
+    cache.searchHistory = [
+      ...cache.searchHistory,
+      ...incoming.searchHistory.filter((h) => !existingQueries.has(h.query)),
+    ]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 20);
+
+    const existingVisitIds = new Set(cache.visits.map((v) => v.id));
+    cache.visits = [...cache.visits, ...incoming.visits.filter((v) => !existingVisitIds.has(v.id))];
+  }
+
+  // 取り込みで内容が変わった場所は履歴に残し、なくなった場所の履歴は消す
+  const revisedIds: string[] = [];
+  cache.places.forEach((place) => {
+    const previous = previousPlaces.get(place.id);
+    if (previous && previous !== place && recordRevision(previous, place, 'import')) {
+      revisedIds.push(place.id);
+    }
+  });
+  const placeIds = new Set(cache.places.map((p) => p.id));
+  const orphanedIds = Object.keys(cache.revisions).filter((id) => !placeIds.has(id));
+  if (orphanedIds.length > 0) {
+    const revisions = { ...cache.revisions };
+    orphanedIds.forEach((id) => delete revisions[id]);
+    cache.revisions = revisions;
+  }
+  if (revisedIds.length > 0 || orphanedIds.length > 0) {
+    persistRevisions(revisedIds, orphanedIds);
+  }
+  // なくなった場所の訪問の記録・写真・声のメモ・お気に入りも消す
+  const attachedPlaceIds = new Set([
+    ...cache.visits.map((v) => v.placeId),
+    ...cache.photos.map((p) => p.placeId),
+    ...cache.voiceMemos.map((m) => m.placeId),
+    ...cache.settings.favoritePlaceIds,
+  ]);
+  removePlaceAttachments([...attachedPlaceIds].filter((id) => !placeIds.has(id)));
+
+  // 同期サーバーへ送る変更として記録する
+  const tabIds = new Set(cache.tabs.map((t) => t.id));
+  queueSync(
+    'place',
+    cache.places.filter((p) => previousPlaces.get(p.id) !== p).map((p) => p.id),
+    [...previousPlaces.keys()].filter((id) => !placeIds.has(id))
+  );
+  queueSync(
+    'tab',
+    cache.tabs.filter((t) => previousTabs.get(t.id) !== t).map((t) => t.id),
+    [...previousTabs.keys()].filter((id) => !tabIds.has(id))
+  );
+
+  let written: Promise<void> = Promise.resolve();
+  if (useLocalStorageFallback) {
+    localStorage.setItem(STORAGE_KEYS.PLACES, JSON.stringify(cache.places));
+    localStorage.setItem(STORAGE_KEYS.TABS, JSON.stringify(cache.tabs));
+    localStorage.setItem(STORAGE_KEYS.VISITS, JSON.stringify(cache.visits));
+  } else {
+    const { places, tabs, visits } = cache;
+    written = enqueueWrite(async () => {
+      // 訪問の記録は消えたものがあるかもしれないので、いつも入れ直す
+      // 途中で失敗して空のまま残らないよう、消すのと書くのを1トランザクションで行う
+      await writeStores([
+        { store: STORES.PLACES, records: places, clear: mode === 'replace' },
+        { store: STORES.TABS, records: tabs, clear: mode === 'replace' },
+        { store: STORES.VISITS, records: visits, clear: true },
+      ]);
+      postCrossTabMessage({ kind: 'reload' });
+    });
+  }
+  persistSearchHistory();
+  persistSettings();
+  ensureDefaultTabs();
+
+  await written;
 }
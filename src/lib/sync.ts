@@ -0,0 +1,177 @@
+import type { RemoteChange, SyncRecordType } from '../types';
+import {
+  subscribe,
+  getSettings,
+  getOutbox,
+  getSyncState,
+  updateSyncState,
+  getPendingChanges,
+  completeSyncedChanges,
+  applyRemoteChanges,
+} from './storage';
+
+// 自前のサーバーとの同期
+// 受け取り: GET  {endpoint}/changes?since=seq → { seq, changes }
+// 送信:     POST {endpoint}/changes { changes } → { results }
+// サーバーの実装例は scripts/sync-server.mjs
+
+const REQUEST_TIMEOUT_MS = 15000;
+const AUTO_SYNC_INTERVAL_MS = 60000;
+// 変更してから送るまでの待ち時間（続けて編集したときにまとめて送る）
+const PUSH_DELAY_MS = 3000;
+
+interface PushResult {
+  type: SyncRecordType;
+  id: string;
+  status: 'accepted' | 'conflict';
+  version: number;
+  record?: RemoteChange['record'];
+  deleted?: boolean;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { syncEndpoint, syncToken } = getSettings();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(`${syncEndpoint.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(syncToken ? { Authorization: `Bearer ${syncToken}` } : {}),
+      },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('サーバーから応答がありませんでした');
+    }
+    throw new Error('サーバーにつながりませんでした');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (response.status === 401) {
+    throw new Error('合言葉が違います');
+  }
+  if (!response.ok) {
+    throw new Error(`サーバーでエラーが起きました（${response.status}）`);
+  }
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new Error('サーバーの応答を読み取れませんでした');
+  }
+}
+
+async function pull(): Promise<number> {
+  const { lastSeq } = getSyncState();
+  const data = await request<{ seq: number; changes: RemoteChange[] }>(
+    `/changes?since=${lastSeq}`
+  );
+  if (typeof data.seq !== 'number' || !Array.isArray(data.changes)) {
+    throw new Error('サーバーの応答を読み取れませんでした');
+  }
+  const applied = applyRemoteChanges(data.changes);
+  updateSyncState({ lastSeq: data.seq });
+  return applied;
+}
+
+async function push(): Promise<number> {
+  const pending = getPendingChanges();
+  if (pending.length === 0) return 0;
+
+  const data = await request<{ results: PushResult[] }>('/changes', {
+    method: 'POST',
+    body: JSON.stringify({
+      changes: pending.map((entry) => ({
+        type: entry.type,
+        id: entry.id,
+        baseVersion: entry.record?.version ?? 0,
+        ...(entry.deleted ? { deleted: true } : { record: entry.record }),
+      })),
+    }),
+  });
+  if (!Array.isArray(data.results)) {
+    throw new Error('サーバーの応答を読み取れませんでした');
+  }
+
+  const acks = data.results
+    .filter((result) => result.status === 'accepted')
+    .flatMap((result) => {
+      const entry = pending.find((e) => e.type === result.type && e.id === result.id);
+      return entry ? [{ entry, version: result.version }] : [];
+    });
+  completeSyncedChanges(acks);
+
+  // 相手の方が新しかったものはサーバーの内容を取り込む
+  const conflicts: RemoteChange[] = data.results
+    .filter((result) => result.status === 'conflict')
+    .map(({ type, id, version, record, deleted }) => ({ type, id, version, record, deleted }));
+  applyRemoteChanges(conflicts);
+
+  return acks.length;
+}
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+}
+
+let inFlight: Promise<SyncResult> | null = null;
+
+// 受け取り → 送信の順に行う。同期中に呼ばれたら同じ処理の結果を返す
+export function syncNow(): Promise<SyncResult> {
+  if (inFlight) return inFlight;
+  if (!getSettings().syncEndpoint) {
+    return Promise.reject(new Error('同期先が設定されていません'));
+  }
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return Promise.reject(new Error('オフラインです。つながったら自動で同期します'));
+  }
+
+  inFlight = (async () => {
+    try {
+      const pulled = await pull();
+      const pushed = await push();
+      updateSyncState({ lastSyncedAt: new Date().toISOString(), lastError: undefined });
+      return { pulled, pushed };
+    } catch (error) {
+      updateSyncState({
+        lastError: error instanceof Error ? error.message : '同期できませんでした',
+      });
+      throw error;
+    } finally {
+      inFlight = null;
+    }
+  })();
+  return inFlight;
+}
+
+// 定期的な同期・オンライン復帰時・変更後に自動で同期する
+export function startAutoSync(): void {
+  const trySync = () => {
+    if (!getSettings().syncEndpoint) return;
+    if (typeof document !== 'undefined' && document.hidden) return;
+    // 失敗は syncState.lastError に残るので、ここでは握りつぶす
+    syncNow().catch(() => {});
+  };
+
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastOutbox = getOutbox();
+  subscribe(() => {
+    const outbox = getOutbox();
+    if (outbox === lastOutbox) return;
+    lastOutbox = outbox;
+    if (outbox.length === 0) return;
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(trySync, PUSH_DELAY_MS);
+  });
+
+  setInterval(trySync, AUTO_SYNC_INTERVAL_MS);
+  window.addEventListener('online', trySync);
+  document.addEventListener('visibilitychange', trySync);
+  trySync();
+}
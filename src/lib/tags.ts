@@ -0,0 +1,51 @@
+import type { Place, Tab, TagMatchMode } from '../types';
+import { isSmartTab } from './smartLists';
+
+// 選んだタグで場所を絞り込む
+// any: どれか1つでもついている / all: すべてついている。何も選んでいなければ絞り込まない
+export function matchesTags(place: Place, tagIds: string[], mode: TagMatchMode): boolean {
+  if (tagIds.length === 0) return true;
+  return mode === 'all'
+    ? tagIds.every((tagId) => place.tagIds.includes(tagId))
+    : tagIds.some((tagId) => place.tagIds.includes(tagId));
+}
+
+// ついていれば外し、ついていなければつける
+export function toggleTag(tagIds: string[], tagId: string): string[] {
+  return tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId];
+}
+
+// 選べる色（Tailwind のクラスは文字列のまま書いておく必要がある）
+export const TAG_COLORS: { id: string; label: string; className: string }[] = [
+  { id: 'blue', label: '青', className: 'bg-blue-500' },
+  { id: 'green', label: '緑', className: 'bg-green-500' },
+  { id: 'purple', label: '紫', className: 'bg-purple-500' },
+  { id: 'orange', label: 'オレンジ', className: 'bg-orange-500' },
+  { id: 'red', label: '赤', className: 'bg-red-500' },
+  { id: 'cyan', label: '水色', className: 'bg-cyan-500' },
+  { id: 'pink', label: 'ピンク', className: 'bg-pink-500' },
+  { id: 'yellow', label: '黄色', className: 'bg-yellow-500' },
+  { id: 'teal', label: '青緑', className: 'bg-teal-500' },
+  { id: 'gray', label: '灰色', className: 'bg-gray-500' },
+];
+
+// 新しいカテゴリに最初から選んでおく絵文字の候補
+export const TAG_ICONS = [
+  '⭐', '📌', '🔁', '💼', '☕', '🏪', '🚻', '📍', '🏠', '🏥',
+  '💊', '🍴', '🛒', '⛽', '🅿️', '🏦', '📮', '🌳', '♨️', '🎁',
+];
+
+export function getTagColorClass(tab: Pick<Tab, 'color'> | undefined): string {
+  return TAG_COLORS.find((c) => c.id === tab?.color)?.className || 'bg-primary';
+}
+
+// 名前の前に絵文字をつけて表示する
+export function formatTagName(tab: Pick<Tab, 'name' | 'icon'>): string {
+  return tab.icon ? `${tab.icon} ${tab.name}` : tab.name;
+}
+
+// 場所につけられるカテゴリ（スマートリストと隠したものを除く）
+// 隠したカテゴリでも、選んであるものは外せるように残す
+export function selectableTags(tabs: Tab[], selectedIds: string[]): Tab[] {
+  return tabs.filter((t) => !isSmartTab(t) && (!t.hidden || selectedIds.includes(t.id)));
+}
@@ -0,0 +1,248 @@
+import type { DeviceSnapshot } from './storage';
+import { getDeviceSnapshot } from './storage';
+import { SCHEMA_VERSION, migrateRecords } from './migrations';
+import type { AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+
+// QRコードを次々に表示して、端末のデータを丸ごと新しい端末へ移す
+// データを圧縮して base64 にし、小分けにしたものを1枚ずつQRコードにする
+//   1枚の中身: KKMT1|全体のチェックサム|圧縮の有無|番号|枚数|この1枚のチェックサム|データ
+// 全体のチェックサムは同じデータかどうかの目印も兼ねる（途中から読み直せる）
+
+export const TRANSFER_FORMAT = 'kokomemo-transfer';
+const TRANSFER_VERSION = 1;
+const FRAME_PREFIX = 'KKMT1';
+// 1枚に入れる文字数（多いほど枚数は減るが、読み取りにくくなる）
+const CHUNK_SIZE = 400;
+const PROGRESS_KEY = 'kokomemo_transfer_progress';
+
+// z: deflate で圧縮 / j: 圧縮なし（CompressionStream がない端末）
+type TransferEncoding = 'z' | 'j';
+
+export interface TransferPackage {
+  checksum: string;
+  encoding: TransferEncoding;
+  chunks: string[];
+}
+
+export interface TransferFrame {
+  checksum: string;
+  encoding: TransferEncoding;
+  // 1から始まる番号
+  index: number;
+  total: number;
+  data: string;
+}
+
+// 受け取り途中の状態（アプリを閉じても続きから読めるよう保存する）
+export interface TransferProgress {
+  checksum: string;
+  encoding: TransferEncoding;
+  total: number;
+  chunks: Record<number, string>;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(text: string): string {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) {
+    crc = CRC_TABLE[(crc ^ text.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export async function createTransferPackage(): Promise<TransferPackage> {
+  // 同期の接続先と合言葉は運ばない（QRコードはカメラで写すだけで読めるため。バックアップと同じ）
+  const snapshot = getDeviceSnapshot();
+  // 同じデータなら同じチェックサムになるよう、作成日時は含めない
+  const payload = JSON.stringify({
+    format: TRANSFER_FORMAT,
+    version: TRANSFER_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    data: { ...snapshot, settings: { ...snapshot.settings, syncEndpoint: '', syncToken: '' } },
+  });
+  const bytes = new TextEncoder().encode(payload);
+  const encoding: TransferEncoding = typeof CompressionStream === 'undefined' ? 'j' : 'z';
+  const encoded = toBase64(
+    encoding === 'z' ? await pipeBytes(bytes, new CompressionStream('deflate')) : bytes
+  );
+
+  const chunks: string[] = [];
+  for (let i = 0; i < encoded.length; i += CHUNK_SIZE) {
+    chunks.push(encoded.slice(i, i + CHUNK_SIZE));
+  }
+  return { checksum: crc32(encoded), encoding, chunks };
+}
+
+// index は1から始まる番号
+export function encodeFrame(pkg: TransferPackage, index: number): string {
+  const data = pkg.chunks[index - 1];
+  const total = pkg.chunks.length;
+  return [FRAME_PREFIX, pkg.checksum, pkg.encoding, index, total, crc32(data), data].join('|');
+}
+
+// 引っ越し用のQRコードでなければ、または読み違いがあれば null
+export function parseFrame(text: string): TransferFrame | null {
+  const parts = text.split('|');
+  if (parts.length !== 7 || parts[0] !== FRAME_PREFIX) return null;
+
+  const [, checksum, encoding, indexText, totalText, chunkChecksum, data] = parts;
+  const index = Number(indexText);
+  const total = Number(totalText);
+  if (
+    (encoding !== 'z' && encoding !== 'j') ||
+    !Number.isInteger(index) ||
+    !Number.isInteger(total) ||
+    index < 1 ||
+    index > total ||
+    crc32(data) !== chunkChecksum
+  ) {
+    return null;
+  }
+  return { checksum, encoding, index, total, data };
+}
+
+// 読み取った1枚を加える。別のデータの1枚なら最初からやり直す
+export function addFrame(progress: TransferProgress | null, frame: TransferFrame): TransferProgress {
+  const base =
+    progress && progress.checksum === frame.checksum
+      ? progress
+      : { checksum: frame.checksum, encoding: frame.encoding, total: frame.total, chunks: {} };
+  if (base.chunks[frame.index] !== undefined) return base;
+  return { ...base, chunks: { ...base.chunks, [frame.index]: frame.data } };
+}
+
+export function missingChunks(progress: TransferProgress): number[] {
+  return Array.from({ length: progress.total }, (_, i) => i + 1).filter(
+    (index) => progress.chunks[index] === undefined
+  );
+}
+
+// [1, 2, 3, 7] → "1-3, 7"
+export function formatChunkList(indexes: number[]): string {
+  const ranges: string[] = [];
+  let start = indexes[0];
+  indexes.forEach((index, i) => {
+    const next = indexes[i + 1];
+    if (next === index + 1) return;
+    ranges.push(start === index ? `${index}` : `${start}-${index}`);
+    start = next;
+  });
+  return ranges.join(', ');
+}
+
+// "1-3, 7" → [1, 2, 3, 7]（範囲外の番号は除く）
+export function parseChunkList(text: string, total: number): number[] {
+  const indexes = new Set<number>();
+  text.split(/[,、\s]+/).forEach((part) => {
+    const match = part.match(/^(\d+)(?:[-〜~](\d+))?$/);
+    if (!match) return;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    for (let i = Math.max(1, from); i <= Math.min(total, to); i++) indexes.add(i);
+  });
+  return [...indexes].sort((a, b) => a - b);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// すべて揃ったら組み立てて中身を確かめる
+export async function assembleTransfer(progress: TransferProgress): Promise<DeviceSnapshot> {
+  if (missingChunks(progress).length > 0) {
+    throw new Error('まだすべて読み取れていません');
+  }
+  const encoded = Array.from({ length: progress.total }, (_, i) => progress.chunks[i + 1]).join('');
+  if (crc32(encoded) !== progress.checksum) {
+    throw new Error('読み取ったデータが壊れています。最初からやり直してください');
+  }
+
+  let json: unknown;
+  try {
+    const bytes = fromBase64(encoded);
+    const raw =
+      progress.encoding === 'z' ? await pipeBytes(bytes, new DecompressionStream('deflate')) : bytes;
+    json = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new Error('読み取ったデータを開けませんでした。この端末のブラウザを更新してください');
+  }
+
+  if (!isObject(json) || json.format !== TRANSFER_FORMAT) {
+    throw new Error('ここメモの引っ越し用のデータではありません');
+  }
+  if (typeof json.version !== 'number' || json.version > TRANSFER_VERSION) {
+    throw new Error('新しいバージョンのアプリで作成されたデータです。アプリを更新してください');
+  }
+  const data = json.data;
+  if (!isObject(data) || !Array.isArray(data.places) || !Array.isArray(data.tabs)) {
+    throw new Error('読み取ったデータが壊れています。最初からやり直してください');
+  }
+
+  const schemaVersion = typeof json.schemaVersion === 'number' ? json.schemaVersion : 0;
+  const migrated = migrateRecords({ places: data.places, tabs: data.tabs }, schemaVersion);
+  const syncState =
+    isObject(data.syncState) && typeof data.syncState.lastSeq === 'number'
+      ? (data.syncState as unknown as DeviceSnapshot['syncState'])
+      : { lastSeq: 0 };
+
+  return {
+    places: migrated.places,
+    tabs: migrated.tabs,
+    searchHistory: Array.isArray(data.searchHistory) ? data.searchHistory : [],
+    settings: isObject(data.settings)
+      ? { ...DEFAULT_SETTINGS, ...(data.settings as Partial<AppSettings>) }
+      : DEFAULT_SETTINGS,
+    quarantine: Array.isArray(data.quarantine) ? data.quarantine : [],
+    revisions: isObject(data.revisions) ? (data.revisions as DeviceSnapshot['revisions']) : {},
+    outbox: Array.isArray(data.outbox) ? data.outbox : [],
+    syncState,
+    visits: Array.isArray(data.visits) ? data.visits : [],
+  };
+}
+
+export function loadTransferProgress(): TransferProgress | null {
+  try {
+    const stored = localStorage.getItem(PROGRESS_KEY);
+    return stored ? (JSON.parse(stored) as TransferProgress) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTransferProgress(progress: TransferProgress): void {
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch {
+    // 保存できなくても読み取りは続けられる（続きからにはならない）
+  }
+}
+
+export function clearTransferProgress(): void {
+  localStorage.removeItem(PROGRESS_KEY);
+}
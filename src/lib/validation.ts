@@ -0,0 +1,413 @@
+import type { Place, Tab, AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+
+// 保存データの実行時チェック
+// 読み込んだレコードは1件ずつ確かめ、壊れたものだけを隔離して残りは使い続ける
+
+export type RecordKind = 'place' | 'tab' | 'searchHistory' | 'visit' | 'photo' | 'voiceMemo';
+
+// 隔離したレコード（データの点検画面から確認・書き出し・削除できる）
+export interface QuarantinedRecord {
+  kind: RecordKind;
+  record: unknown;
+  reasons: string[];
+  quarantinedAt: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+const isOptionalString = (value: unknown): boolean =>
+  value === undefined || typeof value === 'string';
+
+const isOptionalVersion = (value: unknown): boolean =>
+  value === undefined || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+
+// 緯度経度として使える値か（0,0 は位置が取れなかったときの値なので使えないとみなす）
+export function hasUsableCoordinates(latitude: unknown, longitude: unknown): boolean {
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    !(latitude === 0 && longitude === 0)
+  );
+}
+
+// 問題がなければ空の配列を返す
+export function validatePlace(value: unknown): string[] {
+  if (!isRecord(value)) return ['場所のデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.id)) reasons.push('IDがありません');
+  if (typeof value.name !== 'string') reasons.push('登録名が文字列ではありません');
+  if (typeof value.memo !== 'string') reasons.push('メモが文字列ではありません');
+  if (typeof value.address !== 'string') reasons.push('住所が文字列ではありません');
+  if (!isOptionalString(value.postalCode)) reasons.push('郵便番号が文字列ではありません');
+  if (!isOptionalString(value.phoneNumber)) reasons.push('電話番号が文字列ではありません');
+  if (
+    typeof value.latitude !== 'number' ||
+    typeof value.longitude !== 'number' ||
+    !Number.isFinite(value.latitude) ||
+    !Number.isFinite(value.longitude) ||
+    Math.abs(value.latitude) > 90 ||
+    Math.abs(value.longitude) > 180
+  ) {
+    reasons.push('緯度・経度が正しくありません');
+  }
+  if (!Array.isArray(value.tagIds) || !value.tagIds.every(isNonEmptyString)) {
+    reasons.push('カテゴリが正しくありません');
+  }
+  if (!isDateString(value.createdAt)) reasons.push('登録日時が正しくありません');
+  if (!isDateString(value.updatedAt)) reasons.push('更新日時が正しくありません');
+  if (value.deletedAt !== undefined && !isDateString(value.deletedAt)) {
+    reasons.push('削除日時が正しくありません');
+  }
+  if (value.editedAt !== undefined && !isDateString(value.editedAt)) {
+    reasons.push('編集日時が正しくありません');
+  }
+  if (value.checklist !== undefined && !isChecklist(value.checklist)) {
+    reasons.push('持ち物・やることが正しくありません');
+  }
+  if (
+    value.resetChecklistOnNavigate !== undefined &&
+    typeof value.resetChecklistOnNavigate !== 'boolean'
+  ) {
+    reasons.push('チェックを外す設定が正しくありません');
+  }
+  if (value.plannedAt !== undefined && !isDateString(value.plannedAt)) {
+    reasons.push('行く予定の日時が正しくありません');
+  }
+  if (
+    value.reminderMinutesBefore !== undefined &&
+    (typeof value.reminderMinutesBefore !== 'number' ||
+      !Number.isInteger(value.reminderMinutesBefore) ||
+      value.reminderMinutesBefore < 0)
+  ) {
+    reasons.push('お知らせの時間が正しくありません');
+  }
+  if (value.recurrence !== undefined && !isRecurrence(value.recurrence)) {
+    reasons.push('くり返しの予定が正しくありません');
+  }
+  if (!isOptionalVersion(value.version)) reasons.push('同期の版が正しくありません');
+  if (!isOptionalString(value.separatedFrom)) reasons.push('分ける前のIDが正しくありません');
+  return reasons;
+}
+
+function isChecklist(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (item) =>
+        isRecord(item) &&
+        isNonEmptyString(item.id) &&
+        typeof item.text === 'string' &&
+        typeof item.checked === 'boolean'
+    )
+  );
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const isDateKey = (value: unknown): boolean =>
+  typeof value === 'string' && DATE_KEY_PATTERN.test(value);
+const isWeekday = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
+
+function isRecurrence(value: unknown): boolean {
+  if (!isRecord(value)) return false;
+  if (
+    value.time !== undefined &&
+    !(typeof value.time === 'string' && TIME_PATTERN.test(value.time))
+  ) {
+    return false;
+  }
+  if (
+    value.skippedDates !== undefined &&
+    !(Array.isArray(value.skippedDates) && value.skippedDates.every(isDateKey))
+  ) {
+    return false;
+  }
+  switch (value.kind) {
+    case 'weekly':
+      return (
+        Array.isArray(value.weekdays) &&
+        value.weekdays.length > 0 &&
+        value.weekdays.every(isWeekday) &&
+        typeof value.intervalWeeks === 'number' &&
+        Number.isInteger(value.intervalWeeks) &&
+        value.intervalWeeks >= 1 &&
+        isDateKey(value.startDate)
+      );
+    case 'monthly-weekday':
+      return [1, 2, 3, 4, -1].includes(value.nth as number) && isWeekday(value.weekday);
+    case 'dates':
+      return Array.isArray(value.dates) && value.dates.every(isDateKey);
+    default:
+      return false;
+  }
+}
+
+const isPositiveNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+function isSmartRule(value: unknown): boolean {
+  if (!isRecord(value)) return false;
+  switch (value.kind) {
+    case 'near':
+      return isPositiveNumber(value.km);
+    case 'created-in':
+      return ['day', 'week', 'month', 'year'].includes(value.period as string);
+    case 'text':
+      return (
+        ['name', 'memo', 'address'].includes(value.field as string) &&
+        typeof value.text === 'string'
+      );
+    case 'stale':
+      return isPositiveNumber(value.months);
+    case 'tag':
+      return isNonEmptyString(value.tagId);
+    case 'phone':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function validateTab(value: unknown): string[] {
+  if (!isRecord(value)) return ['カテゴリのデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.id)) reasons.push('IDがありません');
+  if (!isNonEmptyString(value.name)) reasons.push('カテゴリ名がありません');
+  if (typeof value.isCustom !== 'boolean') reasons.push('種類が正しくありません');
+  if (typeof value.order !== 'number' || !Number.isFinite(value.order)) {
+    reasons.push('並び順が正しくありません');
+  }
+  if (value.icon !== undefined && typeof value.icon !== 'string') {
+    reasons.push('アイコンが正しくありません');
+  }
+  if (value.color !== undefined && typeof value.color !== 'string') {
+    reasons.push('色が正しくありません');
+  }
+  if (value.hidden !== undefined && typeof value.hidden !== 'boolean') {
+    reasons.push('表示の設定が正しくありません');
+  }
+  if (value.rules !== undefined && !(Array.isArray(value.rules) && value.rules.every(isSmartRule))) {
+    reasons.push('スマートリストの条件が正しくありません');
+  }
+  if (value.ruleMatch !== undefined && value.ruleMatch !== 'any' && value.ruleMatch !== 'all') {
+    reasons.push('スマートリストの条件の組み合わせ方が正しくありません');
+  }
+  if (value.deletedAt !== undefined && !isDateString(value.deletedAt)) {
+    reasons.push('削除日時が正しくありません');
+  }
+  if (
+    value.deletedPlaceIds !== undefined &&
+    !(Array.isArray(value.deletedPlaceIds) && value.deletedPlaceIds.every(isNonEmptyString))
+  ) {
+    reasons.push('削除時の場所の一覧が正しくありません');
+  }
+  if (value.updatedAt !== undefined && !isDateString(value.updatedAt)) {
+    reasons.push('更新日時が正しくありません');
+  }
+  if (!isOptionalVersion(value.version)) reasons.push('同期の版が正しくありません');
+  return reasons;
+}
+
+export function validateSearchHistory(value: unknown): string[] {
+  if (!isRecord(value)) return ['検索履歴のデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.query)) reasons.push('検索語がありません');
+  if (!isOptionalString(value.placeId)) reasons.push('場所IDが文字列ではありません');
+  if (!isDateString(value.timestamp)) reasons.push('検索日時が正しくありません');
+  return reasons;
+}
+
+const TRAVEL_MODES: AppSettings['travelMode'][] = ['driving', 'transit', 'walking'];
+
+const VISIT_SOURCES = ['navigation', 'check-in'];
+
+export function validateVisit(value: unknown): string[] {
+  if (!isRecord(value)) return ['訪問の記録のデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.id)) reasons.push('IDがありません');
+  if (!isNonEmptyString(value.placeId)) reasons.push('場所IDがありません');
+  if (!isDateString(value.visitedAt)) reasons.push('訪問日時が正しくありません');
+  if (!VISIT_SOURCES.includes(value.source as string)) reasons.push('記録の種類が正しくありません');
+  if (
+    value.travelMode !== undefined &&
+    !TRAVEL_MODES.includes(value.travelMode as AppSettings['travelMode'])
+  ) {
+    reasons.push('移動手段が正しくありません');
+  }
+  return reasons;
+}
+
+export function validatePhoto(value: unknown): string[] {
+  if (!isRecord(value)) return ['写真のデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.id)) reasons.push('IDがありません');
+  if (!isNonEmptyString(value.placeId)) reasons.push('場所IDがありません');
+  if (!isDateString(value.createdAt)) reasons.push('登録日時が正しくありません');
+  if (!(value.image instanceof Blob)) reasons.push('写真の画像がありません');
+  if (!(value.thumbnail instanceof Blob)) reasons.push('小さな写真の画像がありません');
+  if (!isPositiveNumber(value.width) || !isPositiveNumber(value.height)) {
+    reasons.push('写真の大きさが正しくありません');
+  }
+  return reasons;
+}
+
+export function validateVoiceMemo(value: unknown): string[] {
+  if (!isRecord(value)) return ['声のメモのデータではありません'];
+
+  const reasons: string[] = [];
+  if (!isNonEmptyString(value.id)) reasons.push('IDがありません');
+  if (!isNonEmptyString(value.placeId)) reasons.push('場所IDがありません');
+  if (!isDateString(value.createdAt)) reasons.push('録音日時が正しくありません');
+  if (!(value.audio instanceof Blob)) reasons.push('録音がありません');
+  if (
+    typeof value.durationMs !== 'number' ||
+    !Number.isFinite(value.durationMs) ||
+    value.durationMs < 0
+  ) {
+    reasons.push('録音の長さが正しくありません');
+  }
+  return reasons;
+}
+
+const VALIDATORS = {
+  place: validatePlace,
+  tab: validateTab,
+  searchHistory: validateSearchHistory,
+  visit: validateVisit,
+  photo: validatePhoto,
+  voiceMemo: validateVoiceMemo,
+} as const;
+
+export interface PartitionResult<T> {
+  valid: T[];
+  quarantined: QuarantinedRecord[];
+}
+
+export function partitionRecords<T>(kind: RecordKind, records: unknown[]): PartitionResult<T> {
+  const quarantinedAt = new Date().toISOString();
+  const valid: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  records.forEach((record) => {
+    const reasons = VALIDATORS[kind](record);
+    if (reasons.length === 0) {
+      valid.push(record as T);
+    } else {
+      quarantined.push({ kind, record, reasons, quarantinedAt });
+    }
+  });
+
+  return { valid, quarantined };
+}
+
+// 設定は項目ごとに確かめ、おかしな値だけ初期値に戻す
+export function sanitizeSettings(value: unknown): AppSettings {
+  const settings = isRecord(value) ? value : {};
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    travelMode: TRAVEL_MODES.includes(settings.travelMode as AppSettings['travelMode'])
+      ? (settings.travelMode as AppSettings['travelMode'])
+      : DEFAULT_SETTINGS.travelMode,
+    trashRetentionDays:
+      typeof settings.trashRetentionDays === 'number' &&
+      Number.isInteger(settings.trashRetentionDays) &&
+      settings.trashRetentionDays >= 0
+        ? settings.trashRetentionDays
+        : DEFAULT_SETTINGS.trashRetentionDays,
+    syncEndpoint:
+      typeof settings.syncEndpoint === 'string' ? settings.syncEndpoint : DEFAULT_SETTINGS.syncEndpoint,
+    syncToken:
+      typeof settings.syncToken === 'string' ? settings.syncToken : DEFAULT_SETTINGS.syncToken,
+    customTabLimit:
+      typeof settings.customTabLimit === 'number' &&
+      Number.isInteger(settings.customTabLimit) &&
+      settings.customTabLimit > 0
+        ? settings.customTabLimit
+        : DEFAULT_SETTINGS.customTabLimit,
+    favoritePlaceIds: Array.isArray(settings.favoritePlaceIds)
+      ? settings.favoritePlaceIds.filter((id): id is string => typeof id === 'string')
+      : DEFAULT_SETTINGS.favoritePlaceIds,
+    favoriteSort:
+      settings.favoriteSort === 'manual' || settings.favoriteSort === 'navigation'
+        ? settings.favoriteSort
+        : DEFAULT_SETTINGS.favoriteSort,
+    keepVoiceRecordings:
+      typeof settings.keepVoiceRecordings === 'boolean'
+        ? settings.keepVoiceRecordings
+        : DEFAULT_SETTINGS.keepVoiceRecordings,
+  };
+}
+
+// ---- データの点検 ----
+// 読み込みはできるが、使うときに困るデータを見つける
+
+export type DataProblemKind =
+  | 'zero-coordinates'
+  | 'orphaned-tab'
+  | 'missing-name'
+  | 'duplicate-id'
+  | 'separated-duplicate';
+
+export interface DataProblem {
+  kind: DataProblemKind;
+  place: Place;
+}
+
+export const DATA_PROBLEM_LABELS: Record<DataProblemKind, string> = {
+  'zero-coordinates': '位置がわからない場所',
+  'orphaned-tab': 'カテゴリが見つからない場所',
+  'missing-name': '名前のない場所',
+  'duplicate-id': 'IDが重なっている場所',
+  'separated-duplicate': 'IDが重なっていたので分けた場所',
+};
+
+export function findDataProblems(places: Place[], tabs: Tab[]): DataProblem[] {
+  const problems: DataProblem[] = [];
+  // スマートリストは場所につけられない
+  const tabIds = new Set(tabs.filter((t) => !t.rules).map((t) => t.id));
+  const seenIds = new Set<string>();
+
+  places.forEach((place) => {
+    if (!hasUsableCoordinates(place.latitude, place.longitude)) {
+      problems.push({ kind: 'zero-coordinates', place });
+    }
+    if (place.tagIds.some((tagId) => !tabIds.has(tagId))) {
+      problems.push({ kind: 'orphaned-tab', place });
+    }
+    if (!place.name.trim()) {
+      problems.push({ kind: 'missing-name', place });
+    }
+    // 2件目以降を重複として扱う
+    if (seenIds.has(place.id)) {
+      problems.push({ kind: 'duplicate-id', place });
+    }
+    seenIds.add(place.id);
+    // 取り込むときに自動で分けたもの（同じ場所が2件になっていないか確かめてもらう）
+    if (place.separatedFrom) {
+      problems.push({ kind: 'separated-duplicate', place });
+    }
+  });
+
+  return problems;
+}
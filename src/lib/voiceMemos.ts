@@ -0,0 +1,24 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { VoiceMemo } from '../types';
+
+// 声のメモ：音声でメモを入力したときの録音を、そのまま場所に残す
+
+// placeId は保存するときに storage の setPlaceVoiceMemos がつけ直す（新しい場所はまだIDがない）
+export function createVoiceMemo(audio: Blob, durationMs: number, placeId = ''): VoiceMemo {
+  return {
+    id: uuidv4(),
+    placeId,
+    createdAt: new Date().toISOString(),
+    audio,
+    durationMs,
+  };
+}
+
+// 例: 75000 → 「1分15秒」
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.max(1, Math.round(durationMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds}秒`;
+  return seconds === 0 ? `${minutes}分` : `${minutes}分${seconds}秒`;
+}
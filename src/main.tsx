@@ -2,9 +2,17 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { initStorage } from './lib/storage'
+import { startAutoSync } from './lib/sync'
+import { startReminders } from './lib/reminders'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// 保存データをメモリに読み込んでから描画する
+initStorage().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+  startAutoSync()
+  startReminders()
+})
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   format,
@@ -11,27 +11,45 @@ import {
   isSameDay,
   addMonths,
   subMonths,
+  startOfDay,
 } from 'date-fns';
 import { ja } from 'date-fns/locale';
 import type { Place } from '../types';
-import { getPlaces } from '../lib/storage';
+import { usePlaces, useVisits } from '../hooks/useStorage';
+import { updatePlace } from '../lib/storage';
+import { getScheduledVisits, toggleSkippedDate, type ScheduledVisit } from '../lib/recurrence';
 import { Header } from '../components/layout/Header';
-import { Button, Loading } from '../components/ui';
+import { Button } from '../components/ui';
 import { PlaceCard } from '../components/PlaceCard';
 
 const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
 
 export function CalendarPage() {
   const navigate = useNavigate();
-  const [places, setPlaces] = useState<Place[]>([]);
+  const places = usePlaces();
+  const visits = useVisits();
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    setPlaces(getPlaces());
-    setIsLoading(false);
-  }, []);
+  // Generate calendar days
+  const calendarDays = useMemo(() => {
+    const monthStart = startOfMonth(currentMonth);
+    const monthEnd = endOfMonth(currentMonth);
+    const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
+    const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
+
+    return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+  }, [currentMonth]);
+
+  // 行く予定の場所（くり返しの予定は、表示している日の分だけ求める）
+  const datesWithPlans = useMemo(() => {
+    const dates = new Map<string, ScheduledVisit[]>();
+    calendarDays.forEach((day) => {
+      const scheduled = getScheduledVisits(places, day);
+      if (scheduled.length > 0) dates.set(format(day, 'yyyy-MM-dd'), scheduled);
+    });
+    return dates;
+  }, [places, calendarDays]);
 
   // Get dates with places registered
   const datesWithPlaces = useMemo(() => {
@@ -44,15 +62,21 @@ export function CalendarPage() {
     return dates;
   }, [places]);
 
-  // Generate calendar days
-  const calendarDays = useMemo(() => {
-    const monthStart = startOfMonth(currentMonth);
-    const monthEnd = endOfMonth(currentMonth);
-    const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
-    const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
-
-    return eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-  }, [currentMonth]);
+  // 行った場所（同じ日に何度行っても1件にまとめる）
+  const datesWithVisits = useMemo(() => {
+    const placeById = new Map(places.map((p) => [p.id, p]));
+    const dates = new Map<string, Place[]>();
+    visits.forEach((visit) => {
+      const place = placeById.get(visit.placeId);
+      if (!place) return;
+      const dateKey = format(new Date(visit.visitedAt), 'yyyy-MM-dd');
+      const existing = dates.get(dateKey) || [];
+      if (!existing.includes(place)) {
+        dates.set(dateKey, [...existing, place]);
+      }
+    });
+    return dates;
+  }, [places, visits]);
 
   // Places for selected date
   const selectedDatePlaces = useMemo(() => {
@@ -61,6 +85,16 @@ export function CalendarPage() {
     return datesWithPlaces.get(dateKey) || [];
   }, [selectedDate, datesWithPlaces]);
 
+  const selectedDatePlans = useMemo(() => {
+    if (!selectedDate) return [];
+    return datesWithPlans.get(format(selectedDate, 'yyyy-MM-dd')) || [];
+  }, [selectedDate, datesWithPlans]);
+
+  const selectedDateVisits = useMemo(() => {
+    if (!selectedDate) return [];
+    return datesWithVisits.get(format(selectedDate, 'yyyy-MM-dd')) || [];
+  }, [selectedDate, datesWithVisits]);
+
   const handlePrevMonth = useCallback(() => {
     setCurrentMonth((prev) => subMonths(prev, 1));
     setSelectedDate(null);
@@ -75,6 +109,8 @@ export function CalendarPage() {
     setSelectedDate((prev) => (prev && isSameDay(prev, date) ? null : date));
   }, []);
 
+  const isPastDate = selectedDate !== null && selectedDate < startOfDay(new Date());
+
   const handleEditPlace = useCallback(
     (place: Place) => {
       navigate(`/place/${place.id}`);
@@ -82,9 +118,11 @@ export function CalendarPage() {
     [navigate]
   );
 
-  if (isLoading) {
-    return <Loading fullScreen message="読み込み中..." />;
-  }
+  // くり返しの予定をこの日だけ休む／休みを取り消す
+  const handleToggleSkip = useCallback((place: Place, date: Date) => {
+    if (!place.recurrence) return;
+    updatePlace(place.id, { recurrence: toggleSkippedDate(place.recurrence, date) });
+  }, []);
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -128,6 +166,11 @@ export function CalendarPage() {
             {calendarDays.map((day) => {
               const dateKey = format(day, 'yyyy-MM-dd');
               const hasPlaces = datesWithPlaces.has(dateKey);
+              const hasVisits = datesWithVisits.has(dateKey);
+              // 休みにした予定だけの日は印をつけない
+              const hasPlans = (datesWithPlans.get(dateKey) || []).some(
+                (plan) => !plan.skipped
+              );
               const isSelected = selectedDate && isSameDay(day, selectedDate);
               const isCurrentMonth = isSameMonth(day, currentMonth);
               const isToday = isSameDay(day, new Date());
@@ -156,18 +199,76 @@ export function CalendarPage() {
                   >
                     {format(day, 'd')}
                   </span>
-                  {hasPlaces && (
-                    <span className="absolute bottom-1 w-2 h-2 rounded-full bg-success" />
+                  {(hasPlaces || hasVisits || hasPlans) && (
+                    <span className="absolute bottom-1 flex gap-1">
+                      {hasPlaces && <span className="w-2 h-2 rounded-full bg-success" />}
+                      {hasVisits && <span className="w-2 h-2 rounded-full bg-primary" />}
+                      {hasPlans && <span className="w-2 h-2 rounded-full bg-orange-500" />}
+                    </span>
                   )}
                 </button>
               );
             })}
           </div>
+
+          {/* 印の見方 */}
+          <div className="flex justify-center gap-4 py-2 text-sm text-text-secondary">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-success" />
+              登録した
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-primary" />
+              行った
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-orange-500" />
+              行く予定
+            </span>
+          </div>
         </div>
 
         {/* Selected date places */}
         {selectedDate && (
           <div className="flex-1 px-4 py-4">
+            {selectedDatePlans.length > 0 && (
+              <>
+                <h3 className="text-lg font-bold text-text mb-4">
+                  {format(selectedDate, 'M月d日（E）', { locale: ja })}に行く予定の場所
+                </h3>
+                <div className="flex flex-col gap-4 mb-6">
+                  {selectedDatePlans.map((plan) => (
+                    <div
+                      key={`${plan.place.id}-${plan.recurring ? 'recurring' : 'planned'}`}
+                      className="flex flex-col gap-2"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p
+                          className={`text-base font-bold ${
+                            plan.skipped ? 'text-text-secondary line-through' : 'text-orange-600'
+                          }`}
+                        >
+                          {plan.recurring ? '🔁' : '🗓️'} {plan.time ?? '時間は決めていない'}
+                          {plan.skipped && '（休み）'}
+                        </p>
+                        {/* 過ぎた日は休みにしても意味がないので、休みの取り消しだけできる */}
+                        {plan.recurring && (!isPastDate || plan.skipped) && (
+                          <Button
+                            variant="secondary"
+                            size="small"
+                            onClick={() => handleToggleSkip(plan.place, selectedDate)}
+                          >
+                            {plan.skipped ? '休みを取り消す' : 'この日は休む'}
+                          </Button>
+                        )}
+                      </div>
+                      <PlaceCard place={plan.place} onEdit={handleEditPlace} />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
             <h3 className="text-lg font-bold text-text mb-4">
               {format(selectedDate, 'M月d日（E）', { locale: ja })}に登録した場所
             </h3>
@@ -182,6 +283,21 @@ export function CalendarPage() {
                 ))}
               </div>
             )}
+
+            <h3 className="text-lg font-bold text-text mt-6 mb-4">
+              {format(selectedDate, 'M月d日（E）', { locale: ja })}に行った場所
+            </h3>
+            {selectedDateVisits.length === 0 ? (
+              <p className="text-center text-text-secondary py-8">
+                この日に行った場所はありません
+              </p>
+            ) : (
+              <div className="flex flex-col gap-4">
+                {selectedDateVisits.map((place) => (
+                  <PlaceCard key={place.id} place={place} onEdit={handleEditPlace} />
+                ))}
+              </div>
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,126 @@
+import { useState, useMemo, useCallback } from 'react';
+import { parseISO, startOfDay, endOfDay } from 'date-fns';
+import type { ExportFormat } from '../lib/exporters';
+import { EXPORT_FORMATS, filterPlacesForExport, downloadPlaces } from '../lib/exporters';
+import { usePlaces, useTabs } from '../hooks/useStorage';
+import { formatTagName } from '../lib/tags';
+import { isSmartTab } from '../lib/smartLists';
+import { Header } from '../components/layout/Header';
+import { Button, Input } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+const FORMAT_OPTIONS = Object.entries(EXPORT_FORMATS) as [
+  ExportFormat,
+  (typeof EXPORT_FORMATS)[ExportFormat],
+][];
+
+export function ExportPage() {
+  const { showToast } = useToast();
+  const places = usePlaces();
+  const allTabs = useTabs();
+  // スマートリストは「すべて」だけ選べる
+  const tabs = useMemo(
+    () => allTabs.filter((tab) => tab.id === 'all' || !isSmartTab(tab)),
+    [allTabs]
+  );
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('gpx');
+  const [tagId, setTagId] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const targetPlaces = useMemo(
+    () =>
+      filterPlacesForExport(places, {
+        tagId,
+        from: fromDate ? startOfDay(parseISO(fromDate)) : undefined,
+        to: toDate ? endOfDay(parseISO(toDate)) : undefined,
+      }),
+    [places, tagId, fromDate, toDate]
+  );
+
+  const handleExport = useCallback(() => {
+    if (targetPlaces.length === 0) {
+      showToast('書き出す場所がありません', 'error');
+      return;
+    }
+    try {
+      downloadPlaces(targetPlaces, tabs, exportFormat);
+      showToast(`${targetPlaces.length}件の場所を書き出しました`);
+    } catch (error) {
+      console.error('Export error:', error);
+      showToast('書き出しに失敗しました', 'error');
+    }
+  }, [targetPlaces, tabs, exportFormat, showToast]);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="地図データの書き出し" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        <div className="flex flex-col gap-6">
+          {/* Format */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-4">ファイルの形式</h2>
+            <div className="flex flex-col gap-3">
+              {FORMAT_OPTIONS.map(([value, option]) => (
+                <button
+                  key={value}
+                  onClick={() => setExportFormat(value)}
+                  className={`
+                    w-full p-4 rounded-xl text-left transition-all
+                    ${exportFormat === value
+                      ? 'bg-primary/10 border-2 border-primary'
+                      : 'bg-white border-2 border-border hover:bg-gray-50'
+                    }
+                  `}
+                >
+                  <p className="text-xl font-bold text-text">{option.label}</p>
+                  <p className="text-base text-text-secondary">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* Filter */}
+          <section className="flex flex-col gap-4">
+            <h2 className="text-xl font-bold text-text">書き出す場所</h2>
+            <select
+              value={tagId}
+              onChange={(e) => setTagId(e.target.value)}
+              className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            >
+              {tabs.map((tab) => (
+                <option key={tab.id} value={tab.id}>
+                  {`カテゴリ: ${formatTagName(tab)}`}
+                </option>
+              ))}
+            </select>
+            <Input
+              label="この日から登録した場所（任意）"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+            <Input
+              label="この日までに登録した場所（任意）"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </section>
+
+          <Button
+            variant="primary"
+            size="large"
+            icon="📤"
+            onClick={handleExport}
+            disabled={targetPlaces.length === 0}
+            className="w-full"
+          >
+            {`${targetPlaces.length}件を書き出す`}
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import type { Place } from '../types';
+import type { DataProblem } from '../lib/validation';
+import { findDataProblems, DATA_PROBLEM_LABELS } from '../lib/validation';
+import { updatePlace, separateDuplicatePlaces, clearQuarantine } from '../lib/storage';
+import { geocodeAddress } from '../lib/maps';
+import { downloadFile, timestampedFilename } from '../lib/file';
+import { isSmartTab } from '../lib/smartLists';
+import { usePlaces, useTabs, useQuarantine } from '../hooks/useStorage';
+import { Header } from '../components/layout/Header';
+import { Button, Card, ConfirmDialog } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
+
+const RECORD_KIND_LABELS = {
+  place: '場所',
+  tab: 'カテゴリ',
+  searchHistory: '検索履歴',
+  visit: '訪問の記録',
+  photo: '写真',
+  voiceMemo: '声のメモ',
+} as const;
+
+export function HealthPage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const places = usePlaces();
+  const tabs = useTabs();
+  const quarantine = useQuarantine();
+  const [fixingKey, setFixingKey] = useState<string | null>(null);
+  const [showClearDialog, setShowClearDialog] = useState(false);
+
+  const problems = useMemo(() => findDataProblems(places, tabs), [places, tabs]);
+
+  const handleLocate = useCallback(
+    async (key: string, place: Place) => {
+      setFixingKey(key);
+      const result = await geocodeAddress(place.address, GOOGLE_MAPS_API_KEY);
+      setFixingKey(null);
+      if (!result) {
+        showToast('住所から位置が見つかりませんでした。編集画面で直してください', 'error');
+        return;
+      }
+      updatePlace(place.id, {
+        latitude: result.latitude,
+        longitude: result.longitude,
+        editedAt: new Date().toISOString(),
+      });
+      showToast('位置を設定しました');
+    },
+    [showToast]
+  );
+
+  const handleRemoveMissingTags = useCallback(
+    (place: Place) => {
+      const tagIds = place.tagIds.filter(
+        (tagId) => tabs.some((t) => t.id === tagId && !isSmartTab(t))
+      );
+      updatePlace(place.id, { tagIds, editedAt: new Date().toISOString() });
+      showToast('見つからないカテゴリを外しました');
+    },
+    [tabs, showToast]
+  );
+
+  const handleNameFromAddress = useCallback(
+    (place: Place) => {
+      updatePlace(place.id, { name: place.address, editedAt: new Date().toISOString() });
+      showToast('住所を名前にしました');
+    },
+    [showToast]
+  );
+
+  const handleConfirmSeparated = useCallback(
+    (place: Place) => {
+      updatePlace(place.id, { separatedFrom: undefined });
+      showToast('確認済みにしました');
+    },
+    [showToast]
+  );
+
+  const handleSeparateDuplicates = useCallback(() => {
+    const count = separateDuplicatePlaces();
+    showToast(`${count}件を別の場所として分けました`);
+  }, [showToast]);
+
+  const handleDownloadQuarantine = useCallback(() => {
+    downloadFile(
+      timestampedFilename('kokomemo-quarantine', 'json'),
+      JSON.stringify(quarantine, null, 2),
+      'application/json'
+    );
+  }, [quarantine]);
+
+  const handleClearQuarantine = useCallback(() => {
+    clearQuarantine();
+    setShowClearDialog(false);
+    showToast('読み込めなかったデータを削除しました');
+  }, [showToast]);
+
+  const renderFix = (problem: DataProblem, key: string) => {
+    const { place } = problem;
+    const editButton = (
+      <Button
+        variant="secondary"
+        size="small"
+        onClick={() => navigate(`/place/${place.id}`)}
+        className="flex-1"
+      >
+        編集する
+      </Button>
+    );
+
+    switch (problem.kind) {
+      case 'zero-coordinates':
+        return place.address.trim() && GOOGLE_MAPS_API_KEY ? (
+          <Button
+            variant="primary"
+            size="small"
+            icon="📍"
+            onClick={() => handleLocate(key, place)}
+            loading={fixingKey === key}
+            className="flex-1"
+          >
+            住所から位置を調べる
+          </Button>
+        ) : (
+          editButton
+        );
+      case 'orphaned-tab':
+        return (
+          <Button
+            variant="primary"
+            size="small"
+            onClick={() => handleRemoveMissingTags(place)}
+            className="flex-1"
+          >
+            見つからないカテゴリを外す
+          </Button>
+        );
+      case 'missing-name':
+        return place.address.trim() ? (
+          <Button
+            variant="primary"
+            size="small"
+            onClick={() => handleNameFromAddress(place)}
+            className="flex-1"
+          >
+            住所を名前にする
+          </Button>
+        ) : (
+          editButton
+        );
+      case 'duplicate-id':
+        return (
+          <Button
+            variant="primary"
+            size="small"
+            onClick={handleSeparateDuplicates}
+            className="flex-1"
+          >
+            別の場所として分ける
+          </Button>
+        );
+      case 'separated-duplicate':
+        // 同じ場所なら編集画面から削除してもらう
+        return (
+          <>
+            {editButton}
+            <Button
+              variant="primary"
+              size="small"
+              onClick={() => handleConfirmSeparated(place)}
+              className="flex-1"
+            >
+              別の場所なのでこのまま
+            </Button>
+          </>
+        );
+    }
+  };
+
+  const isHealthy = problems.length === 0 && quarantine.length === 0;
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="🩺 データの点検" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        <div className="flex flex-col gap-6">
+          {isHealthy ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-5xl mb-3">✅</p>
+              <p className="text-lg text-text-secondary">問題は見つかりませんでした</p>
+            </div>
+          ) : (
+            <>
+              {problems.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-bold text-text mb-4">
+                    直したほうがよい場所（{problems.length}件）
+                  </h2>
+                  <div className="flex flex-col gap-3">
+                    {problems.map((problem, index) => {
+                      const key = `${problem.kind}-${index}`;
+                      return (
+                        <Card key={key} className="flex flex-col gap-2">
+                          <p className="text-sm font-bold text-danger">
+                            {DATA_PROBLEM_LABELS[problem.kind]}
+                          </p>
+                          <h3 className="text-lg font-bold text-text">
+                            {problem.place.name || '（名前なし）'}
+                          </h3>
+                          {problem.place.address && (
+                            <p className="text-base text-text-secondary line-clamp-1">
+                              📍 {problem.place.address}
+                            </p>
+                          )}
+                          <div className="flex gap-2 mt-1">{renderFix(problem, key)}</div>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              {quarantine.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-bold text-text mb-2">
+                    読み込めなかったデータ（{quarantine.length}件）
+                  </h2>
+                  <p className="text-base text-text-secondary mb-4">
+                    壊れていたため使わずに取っておいたデータです。ファイルに保存してから削除できます。
+                  </p>
+                  <div className="flex flex-col gap-3 mb-4">
+                    {quarantine.map((item, index) => (
+                      <Card key={index} className="flex flex-col gap-1">
+                        <p className="text-base font-bold text-text">
+                          {RECORD_KIND_LABELS[item.kind]}
+                        </p>
+                        <p className="text-sm text-danger">{item.reasons.join('、')}</p>
+                        <p className="text-sm text-text-secondary">
+                          {format(new Date(item.quarantinedAt), 'M月d日 H:mm', { locale: ja })}
+                          に見つかりました
+                        </p>
+                      </Card>
+                    ))}
+                  </div>
+                  <div className="flex flex-col gap-3">
+                    <Button
+                      variant="secondary"
+                      size="large"
+                      icon="💾"
+                      onClick={handleDownloadQuarantine}
+                      className="w-full"
+                    >
+                      ファイルに保存
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="large"
+                      icon="🗑️"
+                      onClick={() => setShowClearDialog(true)}
+                      className="w-full"
+                    >
+                      削除する
+                    </Button>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <ConfirmDialog
+        isOpen={showClearDialog}
+        title="読み込めなかったデータを削除"
+        message="取っておいたデータをすべて削除します。この操作は取り消せません。"
+        confirmLabel="🗑️ 削除する"
+        cancelLabel="やめる"
+        variant="danger"
+        onConfirm={handleClearQuarantine}
+        onCancel={() => setShowClearDialog(false)}
+      />
+    </div>
+  );
+}
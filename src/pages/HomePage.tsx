@@ -1,47 +1,42 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Place, Tab, SortOption } from '../types';
-import { getPlaces, getTabs } from '../lib/storage';
+import type { Place, SortOption, TagMatchMode } from '../types';
+import type { LocationResult } from '../lib/maps';
+import { getCurrentLocation } from '../lib/maps';
+import { usePlaces, useTabs, useVisitStats } from '../hooks/useStorage';
+import { matchesTags, toggleTag } from '../lib/tags';
+import { matchesSmartList, needsLocation } from '../lib/smartLists';
 import { Header } from '../components/layout/Header';
-import { Button, Loading } from '../components/ui';
+import { Button } from '../components/ui';
 import { PlaceCard } from '../components/PlaceCard';
 import { SortSelect } from '../components/SortSelect';
+import { TagChips } from '../components/TagChips';
+import { SmartListChips } from '../components/SmartListChips';
+import { FavoriteStrip } from '../components/FavoriteStrip';
+import { TodayPlans } from '../components/TodayPlans';
 
 export function HomePage() {
   const navigate = useNavigate();
-  const [places, setPlaces] = useState<Place[]>([]);
-  const [tabs, setTabs] = useState<Tab[]>([]);
-  const [activeTabId, setActiveTabId] = useState('all');
+  const places = usePlaces();
+  const tabs = useTabs();
+  const visitStats = useVisitStats();
+  const [smartListId, setSmartListId] = useState('all');
+  const [location, setLocation] = useState<LocationResult | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>('any');
   const [sortOption, setSortOption] = useState<SortOption>('created-desc');
-  const [isLoading, setIsLoading] = useState(true);
-
-  const loadData = useCallback(() => {
-    setPlaces(getPlaces());
-    setTabs(getTabs());
-    setIsLoading(false);
-  }, []);
-
-  useEffect(() => {
-    loadData();
-  }, [loadData]);
-
-  // Refresh data when returning to this page
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        loadData();
-      }
-    };
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [loadData]);
 
-  const filteredPlaces = useMemo(() => {
-    let result = places;
+  // 選んでいたスマートリストを消した場合は「すべて」に戻す
+  const smartList = tabs.find((t) => t.id === smartListId) ?? tabs.find((t) => t.id === 'all');
 
-    if (activeTabId !== 'all') {
-      result = result.filter((p) => p.tabId === activeTabId);
-    }
+  const filteredPlaces = useMemo(() => {
+    const context = { now: new Date(), location };
+    let result = places.filter(
+      (p) =>
+        (!smartList || matchesSmartList(p, smartList, context)) &&
+        matchesTags(p, selectedTagIds, tagMatchMode)
+    );
 
     result = [...result].sort((a, b) => {
       switch (sortOption) {
@@ -49,6 +44,18 @@ export function HomePage() {
           return a.name.localeCompare(b.name, 'ja');
         case 'created-asc':
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        case 'visits-desc':
+          return (
+            (visitStats[b.id]?.count ?? 0) - (visitStats[a.id]?.count ?? 0) ||
+            (visitStats[b.id]?.lastVisitedAt ?? '').localeCompare(
+              visitStats[a.id]?.lastVisitedAt ?? ''
+            )
+          );
+        case 'visited-desc':
+          // 行ったことがない場所は最後
+          return (visitStats[b.id]?.lastVisitedAt ?? '').localeCompare(
+            visitStats[a.id]?.lastVisitedAt ?? ''
+          );
         case 'created-desc':
         default:
           return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
@@ -56,7 +63,23 @@ export function HomePage() {
     });
 
     return result;
-  }, [places, activeTabId, sortOption]);
+  }, [places, visitStats, smartList, location, selectedTagIds, tagMatchMode, sortOption]);
+
+  // 距離の条件があるスマートリストを選んだら、現在地を調べる
+  const handleSelectSmartList = useCallback(
+    async (tabId: string) => {
+      setSmartListId(tabId);
+      const tab = tabs.find((t) => t.id === tabId);
+      if (!tab || !needsLocation(tab)) return;
+      setLocationError(null);
+      try {
+        setLocation(await getCurrentLocation());
+      } catch (error) {
+        setLocationError(error instanceof Error ? error.message : '現在地を取得できませんでした');
+      }
+    },
+    [tabs]
+  );
 
   const handleEditPlace = useCallback(
     (place: Place) => {
@@ -65,10 +88,6 @@ export function HomePage() {
     [navigate]
   );
 
-  if (isLoading) {
-    return <Loading fullScreen message="読み込み中..." />;
-  }
-
   return (
     <div className="flex flex-col min-h-screen bg-background">
       <Header
@@ -78,6 +97,12 @@ export function HomePage() {
       <main className="flex-1 flex flex-col pb-6">
         {/* Action Buttons Section - 縦並び */}
         <div className="px-4 py-3 flex flex-col gap-2">
+          {/* 今日の予定 - ワンタップでナビ開始 */}
+          <TodayPlans />
+
+          {/* お気に入り - ワンタップでナビ開始 */}
+          <FavoriteStrip />
+
           <Button
             variant="primary"
             size="normal"
@@ -95,6 +120,15 @@ export function HomePage() {
           >
             🗺️ 場所を検索
           </Button>
+
+          <Button
+            variant="secondary"
+            size="normal"
+            onClick={() => navigate('/scan')}
+            className="w-full"
+          >
+            📷 QRコードを読み取る
+          </Button>
         </div>
 
         {/* Places Section - 上部で区切り、左右余白なし */}
@@ -113,18 +147,45 @@ export function HomePage() {
 
           {/* Category and Sort Selects - 縦並びで見やすく */}
           <div className="px-4 pb-3 flex flex-col gap-2">
-            {/* Category Dropdown */}
-            <select
-              value={activeTabId}
-              onChange={(e) => setActiveTabId(e.target.value)}
-              className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
-            >
-              {tabs.map((tab) => (
-                <option key={tab.id} value={tab.id}>
-                  {`カテゴリ: ${tab.name}`}
-                </option>
-              ))}
-            </select>
+            {/* Smart List Chips - 条件で集めるカテゴリ */}
+            <SmartListChips
+              tabs={tabs}
+              selectedId={smartList?.id ?? 'all'}
+              onSelect={handleSelectSmartList}
+            />
+            {smartList && needsLocation(smartList) && (locationError || !location) && (
+              <p className="text-sm text-text-secondary">
+                {locationError ?? '現在地を調べています…'}
+              </p>
+            )}
+            {/* Category Chips - 何も選ばなければすべて表示 */}
+            <TagChips
+              tabs={tabs}
+              selectedIds={selectedTagIds}
+              onToggle={(tagId) => setSelectedTagIds((prev) => toggleTag(prev, tagId))}
+              label="カテゴリで絞る"
+            />
+            {/* 2つ以上選んだときだけ「どれか」「すべて」を切り替えられる */}
+            {selectedTagIds.length >= 2 && (
+              <div className="flex gap-2">
+                <Button
+                  variant={tagMatchMode === 'any' ? 'primary' : 'secondary'}
+                  size="small"
+                  onClick={() => setTagMatchMode('any')}
+                  className="flex-1"
+                >
+                  どれかがついている
+                </Button>
+                <Button
+                  variant={tagMatchMode === 'all' ? 'primary' : 'secondary'}
+                  size="small"
+                  onClick={() => setTagMatchMode('all')}
+                  className="flex-1"
+                >
+                  すべてついている
+                </Button>
+              </div>
+            )}
             {/* Sort Select */}
             <SortSelect value={sortOption} onChange={setSortOption} />
           </div>
@@ -135,11 +196,11 @@ export function HomePage() {
               <div className="flex flex-col items-center justify-center py-8 text-center">
                 <p className="text-5xl mb-3">📍</p>
                 <p className="text-lg text-text-secondary">
-                  {activeTabId === 'all'
+                  {places.length === 0
                     ? 'まだ場所が登録されていません'
-                    : 'このカテゴリには場所がありません'}
+                    : '選んだカテゴリの場所はありません'}
                 </p>
-                {activeTabId === 'all' && (
+                {places.length === 0 && (
                   <p className="text-base text-text-secondary mt-1">
                     上のボタンから場所を登録してみましょう
                   </p>
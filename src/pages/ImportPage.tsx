@@ -0,0 +1,296 @@
+import { useState, useMemo, useCallback, useRef, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { ImportCandidate, ImportFileFormat } from '../lib/importers';
+import { parseImportFile, findDuplicatePlace, IMPORT_FORMAT_LABELS } from '../lib/importers';
+import { geocodeAddress } from '../lib/maps';
+import { savePlace } from '../lib/storage';
+import { usePlaces, useTabs } from '../hooks/useStorage';
+import { selectableTags, formatTagName } from '../lib/tags';
+import { Header } from '../components/layout/Header';
+import { Button, Card, Input } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
+
+interface ImportRow extends ImportCandidate {
+  selected: boolean;
+}
+
+const hasCoordinates = (row: ImportCandidate): boolean =>
+  row.latitude !== undefined && row.longitude !== undefined;
+
+export function ImportPage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const places = usePlaces();
+  const allTabs = useTabs();
+  const [targetTabId, setTargetTabId] = useState('frequent');
+  const tabs = useMemo(() => selectableTags(allTabs, [targetTabId]), [allTabs, targetTabId]);
+  const [fileFormat, setFileFormat] = useState<ImportFileFormat | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [geocodingKeys, setGeocodingKeys] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  const duplicates = useMemo(() => {
+    const map = new Map<string, string>();
+    rows.forEach((row) => {
+      const duplicate = findDuplicatePlace(row, places);
+      if (duplicate) map.set(row.key, duplicate.name);
+    });
+    return map;
+  }, [rows, places]);
+
+  const importableRows = rows.filter(
+    (row) =>
+      row.selected && hasCoordinates(row) && !(skipDuplicates && duplicates.has(row.key))
+  );
+  const rowsWithoutLocation = rows.filter((row) => !hasCoordinates(row) && row.address.trim());
+
+  const handleFileSelected = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+        const result = parseImportFile(file.name, await file.text());
+        setFileFormat(result.format);
+        setRows(result.candidates.map((candidate) => ({ ...candidate, selected: true })));
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : 'ファイルを読み込めませんでした',
+          'error'
+        );
+      }
+    },
+    [showToast]
+  );
+
+  const updateRow = useCallback((key: string, updates: Partial<ImportRow>) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...updates } : row)));
+  }, []);
+
+  // 住所から位置を調べる（1件ずつ順番に）
+  const geocodeRows = useCallback(
+    async (targets: ImportRow[]) => {
+      if (!GOOGLE_MAPS_API_KEY) {
+        showToast('Google Maps APIキーが設定されていません', 'error');
+        return;
+      }
+
+      let failed = 0;
+      for (const row of targets) {
+        setGeocodingKeys((prev) => new Set(prev).add(row.key));
+        const result = await geocodeAddress(row.address, GOOGLE_MAPS_API_KEY);
+        if (result) {
+          updateRow(row.key, {
+            latitude: result.latitude,
+            longitude: result.longitude,
+            postalCode: row.postalCode || result.postalCode,
+          });
+        } else {
+          failed++;
+        }
+        setGeocodingKeys((prev) => {
+          const next = new Set(prev);
+          next.delete(row.key);
+          return next;
+        });
+      }
+
+      if (failed > 0) {
+        showToast(`${failed}件の住所が見つかりませんでした。住所を直してもう一度お試しください`, 'error');
+      } else {
+        showToast('位置を調べました');
+      }
+    },
+    [showToast, updateRow]
+  );
+
+  const handleImport = useCallback(() => {
+    if (importableRows.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      importableRows.forEach((row) => {
+        savePlace({
+          name: row.name.trim() || row.address,
+          memo: row.memo,
+          address: row.address,
+          postalCode: row.postalCode,
+          phoneNumber: row.phoneNumber,
+          latitude: row.latitude as number,
+          longitude: row.longitude as number,
+          tagIds: [targetTabId],
+        });
+      });
+      showToast(`${importableRows.length}件の場所を取り込みました`);
+      navigate('/');
+    } catch (error) {
+      console.error('Import error:', error);
+      showToast('取り込みに失敗しました', 'error');
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importableRows, targetTabId, navigate, showToast]);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="場所の取り込み" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        <div className="flex flex-col gap-6">
+          {/* File selection */}
+          <section>
+            <p className="text-base text-text-secondary leading-relaxed mb-4">
+              Google マップの保存済みリスト（Google Takeout）、GeoJSON、KML、CSV
+              （名前,住所,緯度,経度,メモ）のファイルから場所をまとめて登録できます。
+            </p>
+            <Button
+              variant={fileFormat ? 'secondary' : 'primary'}
+              size="large"
+              icon="📂"
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full"
+            >
+              {fileFormat ? '別のファイルを選ぶ' : 'ファイルを選ぶ'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.geojson,.kml,.csv,.txt,application/json,application/geo+json,application/vnd.google-earth.kml+xml,text/csv"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+          </section>
+
+          {fileFormat && (
+            <>
+              {/* Import options */}
+              <section className="flex flex-col gap-3">
+                <h2 className="text-xl font-bold text-text">
+                  {IMPORT_FORMAT_LABELS[fileFormat]}（{rows.length}件）
+                </h2>
+                <select
+                  value={targetTabId}
+                  onChange={(e) => setTargetTabId(e.target.value)}
+                  className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
+                >
+                  {tabs.map((tab) => (
+                    <option key={tab.id} value={tab.id}>
+                      {`登録するカテゴリ: ${formatTagName(tab)}`}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-3 text-base text-text">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    className="w-6 h-6"
+                  />
+                  登録済みの場所と同じものは取り込まない
+                </label>
+                {rowsWithoutLocation.length > 0 && (
+                  <Button
+                    variant="secondary"
+                    size="normal"
+                    icon="📍"
+                    onClick={() => geocodeRows(rowsWithoutLocation)}
+                    disabled={geocodingKeys.size > 0 || !GOOGLE_MAPS_API_KEY}
+                    className="w-full"
+                  >
+                    {`位置のない${rowsWithoutLocation.length}件を住所から調べる`}
+                  </Button>
+                )}
+                {!GOOGLE_MAPS_API_KEY && (
+                  <p className="text-xs text-text-secondary">
+                    ※ Google Maps APIキーが未設定のため、住所から位置を調べることはできません
+                  </p>
+                )}
+              </section>
+
+              {/* Preview */}
+              <section className="flex flex-col gap-3">
+                {rows.map((row) => {
+                  const duplicateName = duplicates.get(row.key);
+                  const isSkipped = skipDuplicates && !!duplicateName;
+                  const isGeocoding = geocodingKeys.has(row.key);
+
+                  return (
+                    <Card
+                      key={row.key}
+                      className={`flex flex-col gap-2 ${!row.selected || isSkipped ? 'opacity-60' : ''}`}
+                    >
+                      <label className="flex items-start gap-3">
+                        <input
+                          type="checkbox"
+                          checked={row.selected}
+                          onChange={(e) => updateRow(row.key, { selected: e.target.checked })}
+                          className="w-6 h-6 mt-1 flex-none"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-lg font-bold text-text">{row.name || '（名前なし）'}</p>
+                          {row.memo && (
+                            <p className="text-sm text-text-secondary line-clamp-2">💬 {row.memo}</p>
+                          )}
+                        </div>
+                      </label>
+
+                      {duplicateName && (
+                        <p className="text-sm text-danger">
+                          「{duplicateName}」として登録済みです
+                        </p>
+                      )}
+
+                      {hasCoordinates(row) ? (
+                        row.address && (
+                          <p className="text-base text-text-secondary">📍 {row.address}</p>
+                        )
+                      ) : (
+                        // 位置がない行は住所を直して調べ直せるようにする
+                        <div className="flex flex-col gap-2">
+                          <p className="text-sm text-danger">位置情報がありません</p>
+                          <Input
+                            value={row.address}
+                            onChange={(e) => updateRow(row.key, { address: e.target.value })}
+                            placeholder="住所を入力"
+                          />
+                          <Button
+                            variant="secondary"
+                            size="small"
+                            icon="📍"
+                            onClick={() => geocodeRows([row])}
+                            loading={isGeocoding}
+                            disabled={!row.address.trim() || !GOOGLE_MAPS_API_KEY}
+                          >
+                            住所から位置を調べる
+                          </Button>
+                        </div>
+                      )}
+                    </Card>
+                  );
+                })}
+              </section>
+
+              <Button
+                variant="primary"
+                size="large"
+                icon="📥"
+                onClick={handleImport}
+                loading={isImporting}
+                disabled={importableRows.length === 0}
+                className="w-full sticky bottom-4"
+              >
+                {`${importableRows.length}件を登録する`}
+              </Button>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
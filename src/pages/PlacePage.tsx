@@ -1,16 +1,43 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import type { Tab } from '../types';
+import { format } from 'date-fns';
+import type { Place, PlacePhoto, VoiceMemo, ChecklistItem, Recurrence } from '../types';
 import {
   getPlaceById,
-  getTabs,
   savePlace,
   updatePlace,
   deletePlace,
+  restorePlace,
+  getPlacePhotos,
+  setPlacePhotos,
+  getPlaceVoiceMemos,
+  setPlaceVoiceMemos,
+  canStoreMedia,
+  updateSettings,
 } from '../lib/storage';
-import { getCurrentLocation, reverseGeocode } from '../lib/maps';
+import { getCurrentLocation, reverseGeocode, geocodeAddress } from '../lib/maps';
+import { hasUsableCoordinates } from '../lib/validation';
+import type { PlaceFields, LivePlaceFields } from '../lib/conflicts';
+import {
+  changedFields,
+  pickPlaceFields,
+  mergePlaceFields,
+  pickLivePlaceFields,
+  mergeLivePlaceFields,
+} from '../lib/conflicts';
+import { usePlaces, useTabs, useSettings } from '../hooks/useStorage';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { toggleTag } from '../lib/tags';
+import { hasOccurrences } from '../lib/recurrence';
 import { Header } from '../components/layout/Header';
 import { Button, Input, Textarea, Loading, ConfirmDialog } from '../components/ui';
+import { ConflictDialog } from '../components/ConflictDialog';
+import { TagChips } from '../components/TagChips';
+import { PhotoPicker } from '../components/PhotoPicker';
+import { VoiceMemoPlayer } from '../components/VoiceMemoPlayer';
+import { ChecklistEditor } from '../components/Checklist';
+import { PlannedVisitFields } from '../components/PlannedVisitFields';
+import { RecurrenceFields } from '../components/RecurrenceFields';
 import { useToast } from '../contexts/ToastContext';
 
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
@@ -58,7 +85,9 @@ export function PlacePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
-  const [tabs, setTabs] = useState<Tab[]>([]);
+  const allTabs = useTabs();
+  const settings = useSettings();
+  const tabs = useMemo(() => allTabs.filter((t) => t.id !== 'all'), [allTabs]);
   const [name, setName] = useState('');
   const [memo, setMemo] = useState('');
   const [address, setAddress] = useState('');
@@ -66,7 +95,31 @@ export function PlacePage() {
   const [phoneNumber, setPhoneNumber] = useState('');
   const [latitude, setLatitude] = useState(0);
   const [longitude, setLongitude] = useState(0);
-  const [tabId, setTabId] = useState('frequent');
+  const [tagIds, setTagIds] = useState<string[]>(['frequent']);
+  const [photos, setPhotos] = useState<PlacePhoto[]>([]);
+  const [voiceMemos, setVoiceMemos] = useState<VoiceMemo[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [resetChecklistOnNavigate, setResetChecklistOnNavigate] = useState(false);
+  // <input type="datetime-local"> の形（yyyy-MM-ddTHH:mm）で持つ
+  const [plannedAt, setPlannedAt] = useState('');
+  const [reminderMinutesBefore, setReminderMinutesBefore] = useState<number | undefined>();
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+
+  // 編集を始めたときの内容（別のタブ・ウィンドウでの変更を見つけるため）
+  const [basePlace, setBasePlace] = useState<Place | null>(null);
+  const [showConflictDialog, setShowConflictDialog] = useState(false);
+  const places = usePlaces();
+  const latestPlace = useMemo(
+    () => (basePlace ? places.find((p) => p.id === basePlace.id) : undefined),
+    [places, basePlace]
+  );
+  const deletedElsewhere = !!basePlace && !latestPlace;
+  // チェックや「今日は休む」だけの変更は保存するときに取り込むので、尋ねない
+  const changedElsewhere =
+    !!basePlace &&
+    !!latestPlace &&
+    latestPlace.updatedAt !== basePlace.updatedAt &&
+    changedFields(pickPlaceFields(basePlace), pickPlaceFields(latestPlace)).length > 0;
 
   const [errors, setErrors] = useState<{ name?: string }>({});
 
@@ -74,10 +127,17 @@ export function PlacePage() {
   const [isListening, setIsListening] = useState(false);
   const [isProcessingVoice, setIsProcessingVoice] = useState(false);
 
+  // チェックリスト・行く予定・くり返しの予定（編集画面の外でも変わる項目）
+  const applyLiveFields = useCallback((fields: LivePlaceFields) => {
+    setChecklist(fields.checklist ?? []);
+    setResetChecklistOnNavigate(fields.resetChecklistOnNavigate ?? false);
+    setPlannedAt(fields.plannedAt ? format(new Date(fields.plannedAt), "yyyy-MM-dd'T'HH:mm") : '');
+    setReminderMinutesBefore(fields.reminderMinutesBefore);
+    setRecurrence(fields.recurrence ?? null);
+  }, []);
+
   useEffect(() => {
     const loadData = async () => {
-      setTabs(getTabs().filter((t) => t.id !== 'all'));
-
       if (!isNew && id) {
         const place = getPlaceById(id);
         if (place) {
@@ -88,7 +148,11 @@ export function PlacePage() {
           setPhoneNumber(place.phoneNumber || '');
           setLatitude(place.latitude);
           setLongitude(place.longitude);
-          setTabId(place.tabId);
+          setTagIds(place.tagIds);
+          applyLiveFields(pickLivePlaceFields(place));
+          setPhotos(getPlacePhotos(place.id));
+          setVoiceMemos(getPlaceVoiceMemos(place.id));
+          setBasePlace(place);
         } else {
           showToast('場所が見つかりませんでした', 'error');
           navigate('/');
@@ -151,7 +215,7 @@ export function PlacePage() {
     };
 
     loadData();
-  }, [id, isNew, useCurrentLocation, prefillName, prefillAddress, prefillLat, prefillLng, prefillPostalCode, prefillPhoneNumber, navigate, showToast]);
+  }, [id, isNew, useCurrentLocation, prefillName, prefillAddress, prefillLat, prefillLng, prefillPostalCode, prefillPhoneNumber, applyLiveFields, navigate, showToast]);
 
   const validate = useCallback(() => {
     const newErrors: { name?: string } = {};
@@ -162,22 +226,78 @@ export function PlacePage() {
     return Object.keys(newErrors).length === 0;
   }, [name]);
 
-  const handleSave = useCallback(async () => {
-    if (!validate()) return;
+  const formFields = useMemo<PlaceFields>(
+    () => ({ name, memo, address, postalCode, phoneNumber, latitude, longitude, tagIds }),
+    [name, memo, address, postalCode, phoneNumber, latitude, longitude, tagIds]
+  );
 
+  const applyFields = useCallback((fields: PlaceFields) => {
+    setName(fields.name);
+    setMemo(fields.memo);
+    setAddress(fields.address);
+    setPostalCode(fields.postalCode);
+    setPhoneNumber(fields.phoneNumber);
+    setLatitude(fields.latitude);
+    setLongitude(fields.longitude);
+    setTagIds(fields.tagIds);
+  }, []);
+
+  const liveFormFields = useMemo<LivePlaceFields>(() => {
+    // 空の項目は残さない
+    const items = checklist
+      .map((item) => ({ ...item, text: item.text.trim() }))
+      .filter((item) => item.text);
+    return {
+      checklist: items.length > 0 ? items : undefined,
+      resetChecklistOnNavigate: items.length > 0 && resetChecklistOnNavigate ? true : undefined,
+      plannedAt: plannedAt ? new Date(plannedAt).toISOString() : undefined,
+      reminderMinutesBefore: plannedAt ? reminderMinutesBefore : undefined,
+      recurrence: recurrence && hasOccurrences(recurrence) ? recurrence : undefined,
+    };
+  }, [checklist, resetChecklistOnNavigate, plannedAt, reminderMinutesBefore, recurrence]);
+
+  const savePlaceForm = useCallback(async () => {
     setIsSaving(true);
     try {
+      // 現在地が取れなかったときなど、位置がないまま（0,0で）保存しない
+      let coordinates = { latitude, longitude };
+      if (!hasUsableCoordinates(latitude, longitude)) {
+        const geocoded =
+          address.trim() && GOOGLE_MAPS_API_KEY
+            ? await geocodeAddress(address, GOOGLE_MAPS_API_KEY)
+            : null;
+        if (!geocoded) {
+          showToast('位置がわかりません。住所を入力してからもう一度保存してください', 'error');
+          return;
+        }
+        coordinates = { latitude: geocoded.latitude, longitude: geocoded.longitude };
+        setLatitude(geocoded.latitude);
+        setLongitude(geocoded.longitude);
+      }
+
+      // 編集画面で変えていない項目は、開いている間に詳細画面や同期で変わった内容を使う
+      const liveFields =
+        basePlace && latestPlace
+          ? mergeLivePlaceFields(
+              pickLivePlaceFields(basePlace),
+              liveFormFields,
+              pickLivePlaceFields(latestPlace)
+            )
+          : liveFormFields;
+
       if (isNew) {
-        savePlace({
+        const saved = savePlace({
           name: name.trim(),
           memo: memo.trim(),
           address,
           postalCode: postalCode.trim() || undefined,
           phoneNumber: phoneNumber.trim() || undefined,
-          latitude,
-          longitude,
-          tabId,
+          ...coordinates,
+          tagIds,
+          ...liveFields,
         });
+        setPlacePhotos(saved.id, photos);
+        setPlaceVoiceMemos(saved.id, voiceMemos);
         showToast('場所を登録しました');
       } else if (id) {
         updatePlace(id, {
@@ -186,10 +306,13 @@ export function PlacePage() {
           address,
           postalCode: postalCode.trim() || undefined,
           phoneNumber: phoneNumber.trim() || undefined,
-          latitude,
-          longitude,
-          tabId,
+          ...coordinates,
+          tagIds,
+          ...liveFields,
+          editedAt: new Date().toISOString(),
         });
+        setPlacePhotos(id, photos);
+        setPlaceVoiceMemos(id, voiceMemos);
         showToast('場所を更新しました');
       }
       navigate('/');
@@ -198,12 +321,66 @@ export function PlacePage() {
     } finally {
       setIsSaving(false);
     }
-  }, [isNew, id, name, memo, address, latitude, longitude, tabId, navigate, showToast, validate]);
+  }, [isNew, id, name, memo, address, postalCode, phoneNumber, latitude, longitude, tagIds, liveFormFields, basePlace, latestPlace, photos, voiceMemos, navigate, showToast]);
+
+  const handleSave = useCallback(() => {
+    if (!validate()) return;
+
+    if (deletedElsewhere) {
+      showToast('この場所は別の画面で削除されました', 'error');
+      return;
+    }
+    if (changedElsewhere) {
+      setShowConflictDialog(true);
+      return;
+    }
+    savePlaceForm();
+  }, [validate, deletedElsewhere, changedElsewhere, savePlaceForm, showToast]);
+
+  const handleKeepMine = useCallback(() => {
+    setShowConflictDialog(false);
+    savePlaceForm();
+  }, [savePlaceForm]);
+
+  const handleKeepTheirs = useCallback(() => {
+    if (!latestPlace) return;
+    applyFields(pickPlaceFields(latestPlace));
+    applyLiveFields(pickLivePlaceFields(latestPlace));
+    setBasePlace(latestPlace);
+    setShowConflictDialog(false);
+    showToast('別の画面の内容にしました');
+  }, [latestPlace, applyFields, applyLiveFields, showToast]);
+
+  const handleMerge = useCallback(() => {
+    if (!basePlace || !latestPlace) return;
+    applyFields(
+      mergePlaceFields(pickPlaceFields(basePlace), formFields, pickPlaceFields(latestPlace))
+    );
+    // 基準を最新の内容に変えるので、変えていない項目もここで最新にしておく
+    applyLiveFields(
+      mergeLivePlaceFields(
+        pickLivePlaceFields(basePlace),
+        liveFormFields,
+        pickLivePlaceFields(latestPlace)
+      )
+    );
+    setBasePlace(latestPlace);
+    setShowConflictDialog(false);
+    showToast('まとめました。内容を確かめて保存してください', 'info');
+  }, [basePlace, latestPlace, formFields, liveFormFields, applyFields, applyLiveFields, showToast]);
 
   const handleDelete = useCallback(() => {
     if (!id) return;
     deletePlace(id);
-    showToast('場所を削除しました');
+    showToast('ゴミ箱に移しました', 'success', {
+      action: {
+        label: '元に戻す',
+        onClick: () => {
+          restorePlace(id);
+          showToast('場所を元に戻しました');
+        },
+      },
+    });
     navigate('/');
   }, [id, navigate, showToast]);
 
@@ -256,13 +433,34 @@ ${rawText}`
     }
   }, []);
 
+  // 音声入力と一緒に録音した声（保存するまでは画面の中だけ）
+  const handleRecorded = useCallback(
+    (memo: VoiceMemo) => {
+      setVoiceMemos((prev) => [...prev, memo]);
+      showToast('録音を残しました');
+    },
+    [showToast]
+  );
+  const { start: startRecording, stop: stopRecording } = useVoiceRecorder(handleRecorded);
+  const canKeepRecordings = canStoreMedia();
+  const keepRecordings = settings.keepVoiceRecordings && canKeepRecordings;
+
   // 音声入力
-  const startVoiceInput = useCallback(() => {
+  const startVoiceInput = useCallback(async () => {
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
       showToast('お使いのブラウザは音声入力に対応していません', 'error');
       return;
     }
 
+    if (keepRecordings) {
+      try {
+        await startRecording();
+      } catch (error) {
+        // 録音できなくても文字の入力は続ける
+        showToast(error instanceof Error ? error.message : '録音できませんでした', 'error');
+      }
+    }
+
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     const recognition = new SpeechRecognition();
 
@@ -313,17 +511,19 @@ ${rawText}`
 
     recognition.onend = () => {
       setIsListening(false);
+      stopRecording();
     };
 
     recognition.start();
     showToast('話してください...');
-  }, [showToast, processWithGemini]);
+  }, [showToast, processWithGemini, keepRecordings, startRecording, stopRecording]);
 
   // 音声入力を停止
   const stopVoiceInput = useCallback(() => {
     setIsListening(false);
+    stopRecording();
     // recognition.stop() は onresult で処理される
-  }, []);
+  }, [stopRecording]);
 
   if (isLoading) {
     return (
@@ -349,6 +549,30 @@ ${rawText}`
           }}
           className="flex flex-col gap-5"
         >
+          {/* 別のタブ・ウィンドウでの変更 */}
+          {(changedElsewhere || deletedElsewhere) && (
+            <div
+              role="alert"
+              className="flex flex-col gap-3 p-4 rounded-xl bg-yellow-50 border-2 border-yellow-400"
+            >
+              <p className="text-base font-bold text-text">
+                {deletedElsewhere
+                  ? '⚠️ 別の画面でこの場所が削除されました'
+                  : '⚠️ 別の画面でこの場所が変更されました'}
+              </p>
+              {changedElsewhere && (
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="small"
+                  onClick={() => setShowConflictDialog(true)}
+                >
+                  変更を確認する
+                </Button>
+              )}
+            </div>
+          )}
+
           <Input
             label="場所の登録名（必須）"
             value={name}
@@ -421,28 +645,55 @@ ${rawText}`
             {!GEMINI_API_KEY && (
               <p className="text-xs text-text-secondary">※ Gemini APIキーが未設定のため、整形機能は無効です</p>
             )}
+            {canKeepRecordings && (
+              <label className="flex items-center gap-2 text-base text-text">
+                <input
+                  type="checkbox"
+                  checked={settings.keepVoiceRecordings}
+                  onChange={(e) => updateSettings({ keepVoiceRecordings: e.target.checked })}
+                  className="w-5 h-5"
+                />
+                録音した声も残す（あとで聞き返せます）
+              </label>
+            )}
+            {voiceMemos.map((memo) => (
+              <VoiceMemoPlayer
+                key={memo.id}
+                memo={memo}
+                onRemove={() => setVoiceMemos((prev) => prev.filter((m) => m.id !== memo.id))}
+              />
+            ))}
           </div>
 
+          <PlannedVisitFields
+            plannedAt={plannedAt}
+            onPlannedAtChange={setPlannedAt}
+            reminderMinutesBefore={reminderMinutesBefore}
+            onReminderChange={setReminderMinutesBefore}
+          />
+
+          <RecurrenceFields recurrence={recurrence} onChange={setRecurrence} />
+
+          <ChecklistEditor
+            items={checklist}
+            onChange={setChecklist}
+            resetOnNavigate={resetChecklistOnNavigate}
+            onResetOnNavigateChange={setResetChecklistOnNavigate}
+          />
+
+          {/* 写真（IndexedDBが使えない端末では保存できない） */}
+          {canStoreMedia() && (
+            <PhotoPicker photos={photos} onChange={setPhotos} placeName={name || '場所'} />
+          )}
+
           <div className="flex flex-col gap-2">
-            <p className="text-base font-bold text-text">カテゴリ</p>
-            <div className="flex flex-wrap gap-2">
-              {tabs.map((tab) => (
-                <button
-                  key={tab.id}
-                  type="button"
-                  onClick={() => setTabId(tab.id)}
-                  className={`
-                    min-w-[5rem] px-3 py-2 rounded-lg text-sm font-medium transition-all text-center
-                    ${tabId === tab.id
-                      ? 'bg-primary text-white'
-                      : 'bg-white text-text border border-border hover:bg-gray-50'
-                    }
-                  `}
-                >
-                  {tab.name}
-                </button>
-              ))}
-            </div>
+            <p className="text-base font-bold text-text">カテゴリ（いくつでも選べます）</p>
+            <TagChips
+              tabs={tabs}
+              selectedIds={tagIds}
+              onToggle={(tagId) => setTagIds((prev) => toggleTag(prev, tagId))}
+              label="カテゴリ"
+            />
           </div>
 
           {/* Action Buttons */}
@@ -476,13 +727,26 @@ ${rawText}`
       <ConfirmDialog
         isOpen={showDeleteDialog}
         title="場所を削除"
-        message="この場所を削除します。この操作は取り消せません。"
+        message="この場所をゴミ箱に移します。設定の「ゴミ箱」から元に戻せます。"
         confirmLabel="🗑️ 削除する"
         cancelLabel="やめる"
         variant="danger"
         onConfirm={handleDelete}
         onCancel={() => setShowDeleteDialog(false)}
       />
+
+      {latestPlace && (
+        <ConflictDialog
+          isOpen={showConflictDialog && changedElsewhere}
+          mine={formFields}
+          theirs={pickPlaceFields(latestPlace)}
+          tabs={tabs}
+          onKeepMine={handleKeepMine}
+          onKeepTheirs={handleKeepTheirs}
+          onMerge={handleMerge}
+          onCancel={() => setShowConflictDialog(false)}
+        />
+      )}
     </div>
   );
 }
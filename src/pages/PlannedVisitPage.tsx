@@ -0,0 +1,71 @@
+import { useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import type { Place } from '../types';
+import { openNavigation } from '../lib/maps';
+import { getSettings, recordVisit } from '../lib/storage';
+import { formatPlannedAt } from '../lib/reminders';
+import { usePlaces } from '../hooks/useStorage';
+import { Header } from '../components/layout/Header';
+import { Button } from '../components/ui';
+import { PlaceCard } from '../components/PlaceCard';
+
+// 予定のお知らせをタップしたときに開く画面
+// すぐナビを始められるよう、大きなボタンを一番上に置く
+export function PlannedVisitPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const place = usePlaces().find((p) => p.id === id);
+
+  const handleNavigate = useCallback(() => {
+    if (!place) return;
+    const { travelMode } = getSettings();
+    recordVisit(place.id, 'navigation', travelMode);
+    openNavigation(place.latitude, place.longitude, travelMode);
+  }, [place]);
+
+  const handleEditPlace = useCallback(
+    (target: Place) => {
+      navigate(`/place/${target.id}`);
+    },
+    [navigate]
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="🗓️ 行く予定" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        {place ? (
+          <div className="flex flex-col gap-4">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-text">{place.name}</p>
+              {place.plannedAt && (
+                <p className="text-lg text-text-secondary mt-1">
+                  {formatPlannedAt(place.plannedAt)}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="primary"
+              size="large"
+              icon="🚗"
+              onClick={handleNavigate}
+              className="w-full"
+            >
+              ナビ開始
+            </Button>
+            <PlaceCard place={place} onEdit={handleEditPlace} />
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-center gap-4">
+            <p className="text-5xl">📍</p>
+            <p className="text-lg text-text-secondary">この場所は見つかりませんでした</p>
+            <Button variant="secondary" onClick={() => navigate('/')}>
+              ホームへ
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
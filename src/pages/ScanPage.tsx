@@ -0,0 +1,122 @@
+import { useState, useRef, useCallback, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { SharedPlace } from '../lib/share';
+import { parsePlaceText, encodeSharedPlace, SHARE_PARAM } from '../lib/share';
+import { createQrReader } from '../lib/qr';
+import { useQrCamera } from '../hooks/useQrCamera';
+import { Header } from '../components/layout/Header';
+import { Button } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+// カメラでQRコードを読み取り、場所として登録する画面
+// ここメモの共有リンク・geo: URI・Google マップのURLを読み取れる
+export function ScanPage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [unknownText, setUnknownText] = useState<string | null>(null);
+
+  // 読み取れたら登録の確認画面へ
+  const openPlace = useCallback(
+    (place: SharedPlace) => {
+      navigate(`/import?${SHARE_PARAM}=${encodeSharedPlace(place)}`, { replace: true });
+    },
+    [navigate]
+  );
+
+  const handleText = useCallback(
+    (text: string) => {
+      const place = parsePlaceText(text);
+      if (place) {
+        openPlace(place);
+        return true;
+      }
+      setUnknownText(text);
+    },
+    [openPlace]
+  );
+  const { videoRef, error: cameraError } = useQrCamera(handleText);
+
+  const handlePhotoSelected = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+        const bitmap = await createImageBitmap(file);
+        const text = await createQrReader()(bitmap);
+        bitmap.close();
+        if (!text) {
+          showToast('写真からQRコードが見つかりませんでした', 'error');
+          return;
+        }
+        handleText(text);
+      } catch {
+        showToast('写真を読み込めませんでした', 'error');
+      }
+    },
+    [handleText, showToast]
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="QRコードを読み取る" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        <div className="flex flex-col gap-4">
+          {cameraError ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-5xl mb-3">📷</p>
+              <p className="text-lg text-text-secondary">{cameraError}</p>
+              <p className="text-base text-text-secondary mt-2">写真から読み取ることもできます</p>
+            </div>
+          ) : (
+            <>
+              <div className="relative w-full aspect-square bg-black rounded-2xl overflow-hidden">
+                <video
+                  ref={videoRef}
+                  muted
+                  playsInline
+                  className="absolute inset-0 w-full h-full object-cover"
+                />
+                <div className="absolute inset-[15%] border-4 border-white/80 rounded-2xl pointer-events-none" />
+              </div>
+              <p className="text-base text-text-secondary text-center">
+                枠の中にQRコードを映してください
+              </p>
+            </>
+          )}
+
+          {unknownText && (
+            <div className="bg-gray-50 rounded-lg p-3 flex flex-col gap-1">
+              <p className="text-base font-bold text-danger">場所のQRコードではないようです</p>
+              <p className="text-sm text-text-secondary break-all line-clamp-3">{unknownText}</p>
+            </div>
+          )}
+
+          <Button
+            variant="secondary"
+            size="large"
+            icon="🖼️"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full"
+          >
+            写真から読み取る
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handlePhotoSelected}
+            className="hidden"
+          />
+          <p className="text-sm text-text-secondary leading-relaxed">
+            ここメモの「QRコードを表示」で出したもののほか、Google マップの場所のURLや
+            位置（geo:）のQRコードも読み取れます。
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
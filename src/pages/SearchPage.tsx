@@ -4,7 +4,15 @@ import { InteractiveMap } from '../components/InteractiveMap';
 import { useGoogleMaps } from '../hooks/useGoogleMaps';
 import { openNavigation, getCurrentLocation, searchNearbyPlaces, searchAutocomplete, getPlaceDetailsRest } from '../lib/maps';
 import type { NearbyPlaceResult, AutocompleteResult } from '../lib/maps';
-import { savePlace, getSettings, addSearchHistory } from '../lib/storage';
+import {
+  savePlace,
+  purgePlace,
+  getSettings,
+  getPlaces,
+  addSearchHistory,
+  recordVisit,
+} from '../lib/storage';
+import { findDuplicatePlace } from '../lib/importers';
 import { useToast } from '../contexts/ToastContext';
 
 const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
@@ -392,21 +400,37 @@ export function SearchPage() {
   const handleNavigate = () => {
     if (!selectedPlace) return;
     const settings = getSettings();
+    // 登録済みの場所へのナビなら、行った記録を残す
+    const registered = findDuplicatePlace(
+      { key: selectedPlace.placeId, memo: '', ...selectedPlace },
+      getPlaces()
+    );
+    if (registered) recordVisit(registered.id, 'navigation', settings.travelMode);
     openNavigation(selectedPlace.latitude, selectedPlace.longitude, settings.travelMode);
   };
 
   const handleBoth = () => {
     if (!selectedPlace) return;
-    savePlace({
+    const saved = savePlace({
       name: selectedPlace.name,
       memo: '',
       address: selectedPlace.address,
       latitude: selectedPlace.latitude,
       longitude: selectedPlace.longitude,
-      tabId: 'frequent',
+      tagIds: ['frequent'],
+    });
+    // ナビだけのつもりで押した場合に登録を取り消せるようにする
+    showToast('場所を登録しました', 'success', {
+      action: {
+        label: '元に戻す',
+        onClick: () => {
+          purgePlace(saved.id);
+          showToast('登録を取り消しました');
+        },
+      },
     });
-    showToast('場所を登録しました');
     const settings = getSettings();
+    recordVisit(saved.id, 'navigation', settings.travelMode);
     openNavigation(selectedPlace.latitude, selectedPlace.longitude, settings.travelMode);
     navigate('/');
   };
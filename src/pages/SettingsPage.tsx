@@ -1,9 +1,11 @@
-import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { AppSettings } from '../types';
-import { getSettings, updateSettings } from '../lib/storage';
+import { updateSettings } from '../lib/storage';
+import { useSettings } from '../hooks/useStorage';
 import { Header } from '../components/layout/Header';
 import { Button, Card } from '../components/ui';
+import { BackupSection } from '../components/BackupSection';
+import { SyncSection } from '../components/SyncSection';
 import { useToast } from '../contexts/ToastContext';
 
 const TRAVEL_MODES = [
@@ -15,20 +17,13 @@ const TRAVEL_MODES = [
 export function SettingsPage() {
   const navigate = useNavigate();
   const { showToast } = useToast();
-  const [settings, setSettings] = useState<AppSettings | null>(null);
-
-  useEffect(() => {
-    setSettings(getSettings());
-  }, []);
+  const settings = useSettings();
 
   const handleTravelModeChange = (mode: AppSettings['travelMode']) => {
-    const newSettings = updateSettings({ travelMode: mode });
-    setSettings(newSettings);
+    updateSettings({ travelMode: mode });
     showToast('設定を保存しました');
   };
 
-  if (!settings) return null;
-
   return (
     <div className="flex flex-col min-h-screen">
       <Header title="設定" showBack />
@@ -74,6 +69,85 @@ export function SettingsPage() {
             </Card>
           </section>
 
+          {/* Trash */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-4">削除した場所</h2>
+            <Card>
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/settings/trash')}
+                className="w-full justify-between"
+              >
+                <span>🗑️ ゴミ箱を見る</span>
+                <span>▶</span>
+              </Button>
+            </Card>
+          </section>
+
+          {/* Import / export places for other map apps */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-4">地図データの取り込み・書き出し</h2>
+            <Card className="flex flex-col gap-3">
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/settings/import')}
+                className="w-full justify-between"
+              >
+                <span>Google マップ等から取り込む</span>
+                <span>▶</span>
+              </Button>
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/settings/export')}
+                className="w-full justify-between"
+              >
+                <span>GPX・KML・GeoJSONで書き出す</span>
+                <span>▶</span>
+              </Button>
+            </Card>
+          </section>
+
+          {/* Backup and restore */}
+          <BackupSection />
+
+          {/* Move everything to a new device */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-4">機種変更</h2>
+            <Card>
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/settings/transfer')}
+                className="w-full justify-between"
+              >
+                <span>🔳 QRコードで新しい端末へ移す</span>
+                <span>▶</span>
+              </Button>
+            </Card>
+          </section>
+
+          {/* Sync with other devices */}
+          <SyncSection />
+
+          {/* Data health check */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-4">データの点検</h2>
+            <Card>
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/settings/health')}
+                className="w-full justify-between"
+              >
+                <span>🩺 おかしなデータがないか調べる</span>
+                <span>▶</span>
+              </Button>
+            </Card>
+          </section>
+
           {/* Help section */}
           <section>
             <h2 className="text-xl font-bold text-text mb-4">使い方</h2>
@@ -0,0 +1,150 @@
+import { useState, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { SharedPlace } from '../lib/share';
+import { decodeSharedPlace, SHARE_PARAM } from '../lib/share';
+import { findDuplicatePlace } from '../lib/importers';
+import { savePlace } from '../lib/storage';
+import { usePlaces, useTabs } from '../hooks/useStorage';
+import { selectableTags, formatTagName } from '../lib/tags';
+import { Header } from '../components/layout/Header';
+import { Button, Card, Input } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+// 共有リンクやQRコードから開いたときの画面
+// 送られてきた場所を確かめてから、カテゴリを選んで登録する
+export function SharedPlacePage() {
+  const navigate = useNavigate();
+  const { showToast } = useToast();
+  const [searchParams] = useSearchParams();
+  const places = usePlaces();
+  const allTabs = useTabs();
+  const [targetTabId, setTargetTabId] = useState('frequent');
+  const tabs = useMemo(() => selectableTags(allTabs, [targetTabId]), [allTabs, targetTabId]);
+  // 名前が入っていない場合（geo: のQRコードなど）に入力してもらう
+  const [editedName, setEditedName] = useState<string | null>(null);
+
+  const payload = searchParams.get(SHARE_PARAM);
+  const decoded = useMemo((): { place?: SharedPlace; error?: string } => {
+    if (!payload) return { error: 'リンクに場所が含まれていません' };
+    try {
+      return { place: decodeSharedPlace(payload) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'リンクを読み取れませんでした' };
+    }
+  }, [payload]);
+  const shared = decoded.place;
+
+  const duplicate = useMemo(
+    () => (shared ? findDuplicatePlace({ key: 'shared', ...shared }, places) : undefined),
+    [shared, places]
+  );
+
+  const handleSave = useCallback(() => {
+    if (!shared) return;
+    const name = (editedName ?? shared.name).trim() || shared.address;
+    if (!name) {
+      showToast('場所の名前を入力してください', 'error');
+      return;
+    }
+    savePlace({
+      name,
+      memo: shared.memo,
+      address: shared.address,
+      phoneNumber: shared.phoneNumber,
+      latitude: shared.latitude,
+      longitude: shared.longitude,
+      tagIds: [targetTabId],
+    });
+    showToast('場所を登録しました');
+    navigate('/', { replace: true });
+  }, [shared, editedName, targetTabId, navigate, showToast]);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="送られてきた場所" />
+
+      <main className="flex-1 px-4 py-6">
+        {!shared ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center gap-6">
+            <p className="text-5xl">⚠️</p>
+            <p className="text-lg text-text-secondary">{decoded.error}</p>
+            <Button variant="secondary" size="large" onClick={() => navigate('/', { replace: true })}>
+              ホームへ
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6">
+            <Card className="flex flex-col gap-3">
+              <Input
+                label="場所の名前"
+                value={editedName ?? shared.name}
+                onChange={(e) => setEditedName(e.target.value)}
+                placeholder="例: 〇〇病院"
+              />
+              {shared.address && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">住所</p>
+                  <p className="text-base text-text">📍 {shared.address}</p>
+                </div>
+              )}
+              {shared.phoneNumber && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">電話番号</p>
+                  <p className="text-base text-text">📞 {shared.phoneNumber}</p>
+                </div>
+              )}
+              {shared.memo && (
+                <div>
+                  <p className="text-sm text-text-secondary mb-1">メモ</p>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-base text-text whitespace-pre-wrap">{shared.memo}</p>
+                  </div>
+                </div>
+              )}
+              <a
+                href={`https://www.google.com/maps/search/?api=1&query=${shared.latitude},${shared.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-center text-primary text-sm py-2 active:opacity-70"
+              >
+                Google マップで確かめる →
+              </a>
+            </Card>
+
+            {duplicate && (
+              <p className="text-base text-danger">
+                「{duplicate.name}」として登録済みのようです
+              </p>
+            )}
+
+            <select
+              value={targetTabId}
+              onChange={(e) => setTargetTabId(e.target.value)}
+              className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            >
+              {tabs.map((tab) => (
+                <option key={tab.id} value={tab.id}>
+                  {`登録するカテゴリ: ${formatTagName(tab)}`}
+                </option>
+              ))}
+            </select>
+
+            <div className="flex flex-col gap-3">
+              <Button variant="primary" size="large" icon="📥" onClick={handleSave} className="w-full">
+                登録する
+              </Button>
+              <Button
+                variant="secondary"
+                size="large"
+                onClick={() => navigate('/', { replace: true })}
+                className="w-full"
+              >
+                登録しない
+              </Button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
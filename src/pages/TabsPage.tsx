@@ -1,27 +1,45 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import type { Tab } from '../types';
-import { getTabs, getCustomTabs, addCustomTab, updateTab, deleteTab } from '../lib/storage';
+import type { TabStyle, TabOptions } from '../lib/storage';
+import {
+  addCustomTab,
+  updateTab,
+  deleteTab,
+  restoreTab,
+  reorderTabs,
+  updateSettings,
+  getSettings,
+} from '../lib/storage';
+import { getTagColorClass, formatTagName } from '../lib/tags';
+import { isSmartTab, describeSmartList } from '../lib/smartLists';
+import { useTabs, useCustomTabs, useSettings } from '../hooks/useStorage';
+import { useDragReorder } from '../hooks/useDragReorder';
 import { Header } from '../components/layout/Header';
 import { Button, Input, Card, ConfirmDialog } from '../components/ui';
+import { TabStyleFields } from '../components/TabStyleFields';
+import { SmartListEditor } from '../components/SmartListEditor';
 import { useToast } from '../contexts/ToastContext';
 
+const LIMIT_OPTIONS = [10, 20, 30, 50, 100];
+
 export function TabsPage() {
   const { showToast } = useToast();
-  const [tabs, setTabs] = useState<Tab[]>([]);
-  const [customTabs, setCustomTabs] = useState<Tab[]>([]);
+  const allTabs = useTabs();
+  const customTabs = useCustomTabs();
+  const settings = useSettings();
   const [newTabName, setNewTabName] = useState('');
+  const [newTabStyle, setNewTabStyle] = useState<TabStyle>({});
   const [editingTab, setEditingTab] = useState<Tab | null>(null);
   const [editName, setEditName] = useState('');
+  const [editStyle, setEditStyle] = useState<TabStyle>({});
   const [deleteTabTarget, setDeleteTabTarget] = useState<Tab | null>(null);
+  const [isCreatingSmartList, setIsCreatingSmartList] = useState(false);
 
-  const loadTabs = useCallback(() => {
-    setTabs(getTabs());
-    setCustomTabs(getCustomTabs());
-  }, []);
-
-  useEffect(() => {
-    loadTabs();
-  }, [loadTabs]);
+  // 「すべて」は並べ替えや編集の対象にしない
+  const tabs = useMemo(() => allTabs.filter((t) => t.id !== 'all'), [allTabs]);
+  const tabIds = useMemo(() => tabs.map((t) => t.id), [tabs]);
+  const { order, draggingId, itemProps, handleProps } = useDragReorder(tabIds, reorderTabs);
+  const isFull = customTabs.length >= settings.customTabLimit;
 
   const handleAddTab = useCallback(() => {
     if (!newTabName.trim()) {
@@ -29,24 +47,43 @@ export function TabsPage() {
       return;
     }
 
-    if (customTabs.length >= 5) {
-      showToast('カテゴリは5つまでしか作成できません', 'error');
+    if (isFull) {
+      showToast(`カテゴリは${settings.customTabLimit}個までしか作成できません`, 'error');
       return;
     }
 
-    const newTab = addCustomTab(newTabName.trim());
+    const newTab = addCustomTab(newTabName.trim(), newTabStyle);
     if (newTab) {
       setNewTabName('');
-      loadTabs();
+      setNewTabStyle({});
       showToast('カテゴリを追加しました');
     } else {
       showToast('カテゴリの追加に失敗しました', 'error');
     }
-  }, [newTabName, customTabs.length, loadTabs, showToast]);
+  }, [newTabName, newTabStyle, isFull, settings.customTabLimit, showToast]);
+
+  const handleSaveSmartList = useCallback(
+    (name: string, options: TabOptions) => {
+      if (editingTab) {
+        updateTab(editingTab.id, { name, ...options });
+        setEditingTab(null);
+        showToast('スマートリストを変更しました');
+        return;
+      }
+      if (addCustomTab(name, options)) {
+        setIsCreatingSmartList(false);
+        showToast('スマートリストを追加しました');
+      } else {
+        showToast(`カテゴリは${settings.customTabLimit}個までしか作成できません`, 'error');
+      }
+    },
+    [editingTab, settings.customTabLimit, showToast]
+  );
 
   const handleStartEdit = useCallback((tab: Tab) => {
     setEditingTab(tab);
     setEditName(tab.name);
+    setEditStyle({ icon: tab.icon, color: tab.color });
   }, []);
 
   const handleSaveEdit = useCallback(() => {
@@ -57,31 +94,51 @@ export function TabsPage() {
       return;
     }
 
-    const updated = updateTab(editingTab.id, editName.trim());
+    const updated = updateTab(editingTab.id, { name: editName.trim(), ...editStyle });
     if (updated) {
       setEditingTab(null);
       setEditName('');
-      loadTabs();
-      showToast('カテゴリ名を変更しました');
+      showToast('カテゴリを変更しました');
     } else {
       showToast('変更に失敗しました', 'error');
     }
-  }, [editingTab, editName, loadTabs, showToast]);
+  }, [editingTab, editName, editStyle, showToast]);
+
+  const handleToggleHidden = useCallback(
+    (tab: Tab) => {
+      updateTab(tab.id, { hidden: !tab.hidden });
+      showToast(tab.hidden ? `「${tab.name}」を表示します` : `「${tab.name}」を隠しました`);
+    },
+    [showToast]
+  );
 
   const handleDeleteTab = useCallback(() => {
     if (!deleteTabTarget) return;
 
-    const success = deleteTab(deleteTabTarget.id);
+    const tabId = deleteTabTarget.id;
+    const success = deleteTab(tabId);
     if (success) {
       setDeleteTabTarget(null);
-      loadTabs();
-      showToast('カテゴリを削除しました');
+      showToast('カテゴリを削除しました', 'success', {
+        action: {
+          label: '元に戻す',
+          onClick: () => {
+            // 元に戻すまでの間にカテゴリを作って上限に達していると戻せない
+            if (restoreTab(tabId)) {
+              showToast('カテゴリを元に戻しました');
+            } else {
+              showToast(
+                `カテゴリは${getSettings().customTabLimit}個までです。ほかのカテゴリを削除するか、カテゴリの管理で上限を増やしてください`,
+                'error'
+              );
+            }
+          },
+        },
+      });
     } else {
       showToast('削除に失敗しました', 'error');
     }
-  }, [deleteTabTarget, loadTabs, showToast]);
-
-  const defaultTabs = tabs.filter((t) => !t.isCustom && t.id !== 'all');
+  }, [deleteTabTarget, showToast]);
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -92,52 +149,131 @@ export function TabsPage() {
           {/* Add new tab */}
           <section>
             <h2 className="text-xl font-bold text-text mb-4">
-              新しいカテゴリを追加（{customTabs.length}/5）
+              新しいカテゴリを追加（{customTabs.length}/{settings.customTabLimit}）
             </h2>
-            <div className="flex gap-2">
-              <Input
-                value={newTabName}
-                onChange={(e) => setNewTabName(e.target.value)}
-                placeholder="カテゴリ名"
-                className="flex-1"
-                disabled={customTabs.length >= 5}
-              />
+            <div className="flex flex-col gap-3">
+              <div className="flex gap-2">
+                <Input
+                  value={newTabName}
+                  onChange={(e) => setNewTabName(e.target.value)}
+                  placeholder="カテゴリ名"
+                  className="flex-1"
+                  disabled={isFull}
+                />
+                <Button
+                  variant="primary"
+                  onClick={handleAddTab}
+                  disabled={isFull || !newTabName.trim()}
+                >
+                  追加
+                </Button>
+              </div>
+              {newTabName.trim() && (
+                <TabStyleFields value={newTabStyle} onChange={setNewTabStyle} />
+              )}
+            </div>
+          </section>
+
+          {/* Smart lists */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-2">スマートリスト</h2>
+            <p className="text-base text-text-secondary mb-4">
+              「2km以内」「今月登録した」など、条件に合う場所を自動で集めるカテゴリです。
+            </p>
+            {isCreatingSmartList ? (
+              <Card>
+                <SmartListEditor
+                  tabs={tabs}
+                  onSave={handleSaveSmartList}
+                  onCancel={() => setIsCreatingSmartList(false)}
+                />
+              </Card>
+            ) : (
               <Button
-                variant="primary"
-                onClick={handleAddTab}
-                disabled={customTabs.length >= 5 || !newTabName.trim()}
+                variant="secondary"
+                icon="🔎"
+                onClick={() => setIsCreatingSmartList(true)}
+                disabled={isFull}
+                className="w-full"
               >
-                追加
+                スマートリストを作る
               </Button>
-            </div>
+            )}
           </section>
 
-          {/* Custom tabs */}
-          {customTabs.length > 0 && (
-            <section>
-              <h2 className="text-xl font-bold text-text mb-4">作成したカテゴリ</h2>
-              <div className="flex flex-col gap-3">
-                {customTabs.map((tab) => (
-                  <Card key={tab.id}>
-                    {editingTab?.id === tab.id ? (
-                      <div className="flex gap-2">
+          {/* All tabs */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-2">カテゴリの一覧</h2>
+            <p className="text-base text-text-secondary mb-4">
+              ☰ をつかんで上下に動かすと、並び順を変えられます。
+              標準のカテゴリは削除できませんが、使わないものは隠せます。
+            </p>
+            <div className="flex flex-col gap-3">
+              {order.map((id) => {
+                const tab = tabs.find((t) => t.id === id);
+                if (!tab) return null;
+                return (
+                  <Card
+                    key={tab.id}
+                    {...itemProps(tab.id)}
+                    className={draggingId === tab.id ? 'opacity-60 ring-2 ring-primary' : ''}
+                  >
+                    {editingTab?.id === tab.id && isSmartTab(tab) ? (
+                      <SmartListEditor
+                        initial={tab}
+                        tabs={tabs}
+                        onSave={handleSaveSmartList}
+                        onCancel={() => setEditingTab(null)}
+                      />
+                    ) : editingTab?.id === tab.id ? (
+                      <div className="flex flex-col gap-3">
                         <Input
                           value={editName}
                           onChange={(e) => setEditName(e.target.value)}
-                          className="flex-1"
                           autoFocus
                         />
-                        <Button variant="primary" onClick={handleSaveEdit}>
-                          保存
-                        </Button>
-                        <Button variant="secondary" onClick={() => setEditingTab(null)}>
-                          取消
-                        </Button>
+                        <TabStyleFields value={editStyle} onChange={setEditStyle} />
+                        <div className="flex gap-2">
+                          <Button variant="primary" onClick={handleSaveEdit} className="flex-1">
+                            保存
+                          </Button>
+                          <Button
+                            variant="secondary"
+                            onClick={() => setEditingTab(null)}
+                            className="flex-1"
+                          >
+                            取消
+                          </Button>
+                        </div>
                       </div>
                     ) : (
-                      <div className="flex items-center justify-between">
-                        <span className="text-lg font-medium text-text">{tab.name}</span>
-                        <div className="flex gap-2">
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          {...handleProps(tab.id)}
+                          aria-label={`「${tab.name}」の並び順を変える`}
+                          className="p-2 text-xl text-text-secondary cursor-grab select-none"
+                        >
+                          ☰
+                        </button>
+                        <span
+                          className={`w-3 h-3 rounded-full shrink-0 ${getTagColorClass(tab)}`}
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p
+                            className={`text-lg font-medium ${
+                              tab.hidden ? 'text-text-secondary line-through' : 'text-text'
+                            }`}
+                          >
+                            {formatTagName(tab)}
+                          </p>
+                          {isSmartTab(tab) && (
+                            <p className="text-sm text-text-secondary">
+                              🔎 {describeSmartList(tab, tabs)}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
                           <Button
                             variant="ghost"
                             onClick={() => handleStartEdit(tab)}
@@ -145,35 +281,49 @@ export function TabsPage() {
                           >
                             ✏️ 編集
                           </Button>
-                          <Button
-                            variant="ghost"
-                            onClick={() => setDeleteTabTarget(tab)}
-                            className="!p-2 !min-h-0 !text-danger"
-                          >
-                            🗑️ 削除
-                          </Button>
+                          {tab.isCustom ? (
+                            <Button
+                              variant="ghost"
+                              onClick={() => setDeleteTabTarget(tab)}
+                              className="!p-2 !min-h-0 !text-danger"
+                            >
+                              🗑️ 削除
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              onClick={() => handleToggleHidden(tab)}
+                              className="!p-2 !min-h-0"
+                            >
+                              {tab.hidden ? '👁️ 表示' : '🙈 隠す'}
+                            </Button>
+                          )}
                         </div>
                       </div>
                     )}
                   </Card>
-                ))}
-              </div>
-            </section>
-          )}
+                );
+              })}
+            </div>
+          </section>
 
-          {/* Default tabs (read-only) */}
+          {/* Limit */}
           <section>
-            <h2 className="text-xl font-bold text-text mb-4">標準カテゴリ</h2>
-            <p className="text-base text-text-secondary mb-4">
-              これらのカテゴリは変更・削除できません
-            </p>
-            <div className="flex flex-col gap-3">
-              {defaultTabs.map((tab) => (
-                <Card key={tab.id}>
-                  <span className="text-lg font-medium text-text-secondary">{tab.name}</span>
-                </Card>
-              ))}
-            </div>
+            <h2 className="text-xl font-bold text-text mb-4">作れるカテゴリの数</h2>
+            <select
+              value={settings.customTabLimit}
+              onChange={(e) => updateSettings({ customTabLimit: Number(e.target.value) })}
+              className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            >
+              {/* 今の設定が選択肢にない場合（バックアップから戻したときなど）も表示する */}
+              {[...new Set([...LIMIT_OPTIONS, settings.customTabLimit])]
+                .sort((a, b) => a - b)
+                .map((limit) => (
+                  <option key={limit} value={limit} disabled={limit < customTabs.length}>
+                    {`${limit}個まで`}
+                  </option>
+                ))}
+            </select>
           </section>
         </div>
       </main>
@@ -181,7 +331,7 @@ export function TabsPage() {
       <ConfirmDialog
         isOpen={!!deleteTabTarget}
         title="カテゴリを削除"
-        message={`「${deleteTabTarget?.name}」を削除します。このカテゴリに登録されていた場所は「よく行く」に移動します。`}
+        message={`「${deleteTabTarget?.name}」を削除します。場所からはこのカテゴリが外れます（場所は消えません）。設定の「ゴミ箱」から元に戻せます。`}
         confirmLabel="🗑️ 削除する"
         cancelLabel="やめる"
         variant="danger"
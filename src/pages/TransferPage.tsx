@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Header } from '../components/layout/Header';
+import { TransferSender } from '../components/TransferSender';
+import { TransferReceiver } from '../components/TransferReceiver';
+import { Button } from '../components/ui';
+
+type TransferMode = 'send' | 'receive';
+
+// QRコードで機種変更（ネットにつながらなくても使える）
+export function TransferPage() {
+  const [mode, setMode] = useState<TransferMode | null>(null);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="QRコードで引っ越し" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        {mode === 'send' && <TransferSender />}
+        {mode === 'receive' && <TransferReceiver />}
+        {!mode && (
+          <div className="flex flex-col gap-4">
+            <p className="text-base text-text-secondary leading-relaxed">
+              登録した場所・カテゴリ・設定・変更履歴などをすべて、QRコードで新しい端末へ移します。
+              アカウントやインターネットは要りません。
+            </p>
+            <Button
+              variant="primary"
+              size="large"
+              icon="📤"
+              onClick={() => setMode('send')}
+              className="w-full"
+            >
+              データを送る（古い端末）
+            </Button>
+            <Button
+              variant="primary"
+              size="large"
+              icon="📥"
+              onClick={() => setMode('receive')}
+              className="w-full"
+            >
+              データを受け取る（新しい端末）
+            </Button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
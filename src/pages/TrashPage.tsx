@@ -0,0 +1,248 @@
+import { useState, useCallback } from 'react';
+import { format, differenceInCalendarDays } from 'date-fns';
+import { ja } from 'date-fns/locale';
+import {
+  updateSettings,
+  restorePlace,
+  purgePlace,
+  restoreTab,
+  purgeTab,
+  emptyTrash,
+} from '../lib/storage';
+import { usePlaces, useDeletedPlaces, useDeletedTabs, useSettings } from '../hooks/useStorage';
+import { Header } from '../components/layout/Header';
+import { Button, Card, ConfirmDialog } from '../components/ui';
+import { useToast } from '../contexts/ToastContext';
+
+const RETENTION_OPTIONS = [
+  { value: 7, label: '7日後' },
+  { value: 30, label: '30日後' },
+  { value: 90, label: '90日後' },
+  { value: 0, label: '自動で消さない' },
+];
+
+export function TrashPage() {
+  const { showToast } = useToast();
+  const places = usePlaces();
+  const deletedPlaces = useDeletedPlaces();
+  const deletedTabs = useDeletedTabs();
+  const { trashRetentionDays: retentionDays, customTabLimit } = useSettings();
+  const [showEmptyDialog, setShowEmptyDialog] = useState(false);
+
+  const daysLeft = (deletedAt: string): number | null => {
+    if (!retentionDays) return null;
+    return Math.max(0, retentionDays - differenceInCalendarDays(new Date(), new Date(deletedAt)));
+  };
+
+  const handleRetentionChange = useCallback(
+    (days: number) => {
+      updateSettings({ trashRetentionDays: days });
+      showToast('設定を保存しました');
+    },
+    [showToast]
+  );
+
+  const handleRestorePlace = useCallback(
+    (id: string) => {
+      if (restorePlace(id)) {
+        showToast('場所を元に戻しました');
+      } else {
+        showToast('元に戻せませんでした', 'error');
+      }
+    },
+    [showToast]
+  );
+
+  const handlePurgePlace = useCallback(
+    (id: string) => {
+      purgePlace(id);
+      showToast('完全に削除しました');
+    },
+    [showToast]
+  );
+
+  const handleRestoreTab = useCallback(
+    (id: string) => {
+      if (restoreTab(id)) {
+        showToast('カテゴリを元に戻しました');
+      } else {
+        showToast(
+          `カテゴリは${customTabLimit}個までです。ほかのカテゴリを削除するか、カテゴリの管理で上限を増やしてください`,
+          'error'
+        );
+      }
+    },
+    [customTabLimit, showToast]
+  );
+
+  const handlePurgeTab = useCallback(
+    (id: string) => {
+      purgeTab(id);
+      showToast('完全に削除しました');
+    },
+    [showToast]
+  );
+
+  const handleEmptyTrash = useCallback(() => {
+    emptyTrash();
+    setShowEmptyDialog(false);
+    showToast('ゴミ箱を空にしました');
+  }, [showToast]);
+
+  const isEmpty = deletedPlaces.length === 0 && deletedTabs.length === 0;
+  const placeNames = new Map(
+    [...places, ...deletedPlaces].map((p) => [p.id, p.name] as const)
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header title="🗑️ ゴミ箱" showBack />
+
+      <main className="flex-1 px-4 py-6">
+        <div className="flex flex-col gap-6">
+          {/* Retention setting */}
+          <section>
+            <h2 className="text-xl font-bold text-text mb-2">自動で消えるまで</h2>
+            <p className="text-base text-text-secondary mb-3">
+              削除した場所は、この期間が過ぎると完全に消えます
+            </p>
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="w-full px-4 py-3 text-base font-medium rounded-lg border border-border bg-white text-text cursor-pointer hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-primary/30"
+            >
+              {RETENTION_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </section>
+
+          {isEmpty ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <p className="text-5xl mb-3">🗑️</p>
+              <p className="text-lg text-text-secondary">ゴミ箱は空です</p>
+            </div>
+          ) : (
+            <>
+              {/* Deleted places */}
+              {deletedPlaces.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-bold text-text mb-4">削除した場所</h2>
+                  <div className="flex flex-col gap-3">
+                    {deletedPlaces.map((place) => {
+                      const left = daysLeft(place.deletedAt!);
+                      return (
+                        <Card key={place.id} className="flex flex-col gap-2">
+                          <h3 className="text-lg font-bold text-text">{place.name}</h3>
+                          {place.address && (
+                            <p className="text-base text-text-secondary line-clamp-1">📍 {place.address}</p>
+                          )}
+                          <p className="text-sm text-text-secondary">
+                            {format(new Date(place.deletedAt!), 'M月d日 H:mm', { locale: ja })}に削除
+                            {left !== null && `（あと${left}日で消えます）`}
+                          </p>
+                          <div className="flex gap-2 mt-1">
+                            <Button
+                              variant="primary"
+                              size="small"
+                              icon="↩️"
+                              onClick={() => handleRestorePlace(place.id)}
+                              className="flex-1"
+                            >
+                              元に戻す
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="small"
+                              onClick={() => handlePurgePlace(place.id)}
+                              className="flex-1 !text-danger"
+                            >
+                              完全に削除
+                            </Button>
+                          </div>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              {/* Deleted tabs */}
+              {deletedTabs.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-bold text-text mb-4">削除したカテゴリ</h2>
+                  <div className="flex flex-col gap-3">
+                    {deletedTabs.map((tab) => {
+                      const members = (tab.deletedPlaceIds || [])
+                        .map((id) => placeNames.get(id))
+                        .filter(Boolean);
+                      const left = daysLeft(tab.deletedAt!);
+                      return (
+                        <Card key={tab.id} className="flex flex-col gap-2">
+                          <h3 className="text-lg font-bold text-text">{tab.name}</h3>
+                          {members.length > 0 ? (
+                            <p className="text-base text-text-secondary">
+                              登録されていた場所: {members.join('、')}
+                            </p>
+                          ) : (
+                            <p className="text-base text-text-secondary">登録されていた場所はありません</p>
+                          )}
+                          <p className="text-sm text-text-secondary">
+                            {format(new Date(tab.deletedAt!), 'M月d日 H:mm', { locale: ja })}に削除
+                            {left !== null && `（あと${left}日で消えます）`}
+                          </p>
+                          <div className="flex gap-2 mt-1">
+                            <Button
+                              variant="primary"
+                              size="small"
+                              icon="↩️"
+                              onClick={() => handleRestoreTab(tab.id)}
+                              className="flex-1"
+                            >
+                              元に戻す
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="small"
+                              onClick={() => handlePurgeTab(tab.id)}
+                              className="flex-1 !text-danger"
+                            >
+                              完全に削除
+                            </Button>
+                          </div>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                </section>
+              )}
+
+              <Button
+                variant="danger"
+                size="large"
+                icon="🗑️"
+                onClick={() => setShowEmptyDialog(true)}
+                className="w-full"
+              >
+                ゴミ箱を空にする
+              </Button>
+            </>
+          )}
+        </div>
+      </main>
+
+      <ConfirmDialog
+        isOpen={showEmptyDialog}
+        title="ゴミ箱を空にする"
+        message="ゴミ箱の中身をすべて完全に削除します。この操作は取り消せません。"
+        confirmLabel="🗑️ 空にする"
+        cancelLabel="やめる"
+        variant="danger"
+        onConfirm={handleEmptyTrash}
+        onCancel={() => setShowEmptyDialog(false)}
+      />
+    </div>
+  );
+}
@@ -7,16 +7,119 @@ export interface Place {
   phoneNumber?: string;
   latitude: number;
   longitude: number;
-  tabId: string;
+  // つけたタグ（Tab の id）。複数つけられる
+  tagIds: string[];
+  // 持ち物・やること（並び順どおり）
+  checklist?: ChecklistItem[];
+  // ナビを始めたらチェックをすべて外す
+  resetChecklistOnNavigate?: boolean;
+  // 行く予定の日時と、何分前に知らせるか（未設定なら知らせない）
+  plannedAt?: string;
+  reminderMinutesBefore?: number;
+  // 決まった日にくり返し行く（通院・送り迎えなど）
+  recurrence?: Recurrence;
   createdAt: string;
   updatedAt: string;
+  // 内容を編集した日時（updatedAt と違い、チェックや「今日は休む」、ナビ開始では変わらない）
+  editedAt?: string;
+  // ゴミ箱に入れた日時（未設定なら通常の場所）
+  deletedAt?: string;
+  // 同期サーバー上の版（一度も同期していなければ未設定）
+  version?: number;
+  // 取り込むときにIDが重なっていたため、新しいIDをつけて分けた場所（元のID）
+  separatedFrom?: string;
 }
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+}
+
+// 場所の変更履歴
+export type RevisionSource = 'edit' | 'import' | 'sync' | 'restore';
+
+export interface FieldChange {
+  field: keyof Place;
+  before: unknown;
+  after: unknown;
+}
+
+export interface PlaceRevision {
+  id: string;
+  createdAt: string;
+  source: RevisionSource;
+  changes: FieldChange[];
+}
+
+// 1つの場所の履歴（新しい順）
+export interface PlaceHistory {
+  placeId: string;
+  revisions: PlaceRevision[];
+}
+
+// 訪問の記録（ナビを始めたとき・「行った」を押したとき）
+export type VisitSource = 'navigation' | 'check-in';
+
+export interface Visit {
+  id: string;
+  placeId: string;
+  visitedAt: string;
+  source: VisitSource;
+  // ナビを始めたときの移動手段
+  travelMode?: AppSettings['travelMode'];
+}
+
+// 場所の写真（縮小した写真と一覧用の小さな写真）
+export interface PlacePhoto {
+  id: string;
+  placeId: string;
+  createdAt: string;
+  image: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+}
+
+// 場所につけた声のメモ（録音そのもの）
+export interface VoiceMemo {
+  id: string;
+  placeId: string;
+  createdAt: string;
+  audio: Blob;
+  durationMs: number;
+}
+
+// 場所ごとの訪問回数と最後に行った日時
+export interface VisitStats {
+  count: number;
+  // そのうち「ナビ開始」から記録した回数
+  navigationCount: number;
+  lastVisitedAt: string;
+}
+
+// カテゴリ（場所につけるタグの定義）
 export interface Tab {
   id: string;
   name: string;
   isCustom: boolean;
   order: number;
+  // 名前の前に出す絵文字
+  icon?: string;
+  // TAG_COLORS のキー（なければアプリの基本色）
+  color?: string;
+  // 標準カテゴリを使わないときに隠す（削除はできない）
+  hidden?: boolean;
+  // 条件で集めるカテゴリ（スマートリスト）。場所にはつけられない
+  // 「すべて」は条件のないスマートリストとして扱う
+  rules?: SmartRule[];
+  // 条件をすべて満たす / どれかを満たす（なければすべて）
+  ruleMatch?: TagMatchMode;
+  deletedAt?: string;
+  // 削除時にこのタグを外した場所（元に戻すときに使う）
+  deletedPlaceIds?: string[];
+  updatedAt?: string;
+  version?: number;
 }
 
 export interface SearchHistory {
@@ -25,24 +128,114 @@ export interface SearchHistory {
   timestamp: string;
 }
 
-export type SortOption = 'name-asc' | 'created-desc' | 'created-asc';
+export type SortOption =
+  | 'name-asc'
+  | 'created-desc'
+  | 'created-asc'
+  | 'visits-desc'
+  | 'visited-desc';
+
+// タグでの絞り込み方（いずれかを含む / すべてを含む）
+export type TagMatchMode = 'any' | 'all';
+
+// スマートリストの条件
+export type SmartRule =
+  // 現在地から km 以内
+  | { kind: 'near'; km: number }
+  // 今日・今週・今月・今年に登録した
+  | { kind: 'created-in'; period: 'day' | 'week' | 'month' | 'year' }
+  // 名前・メモ・住所に text を含む
+  | { kind: 'text'; field: 'name' | 'memo' | 'address'; text: string }
+  // months か月以上編集していない
+  | { kind: 'stale'; months: number }
+  // タグがついている
+  | { kind: 'tag'; tagId: string }
+  // 電話番号がある
+  | { kind: 'phone' };
+
+// くり返しの決まり（日付は yyyy-MM-dd、曜日は 0=日曜〜6=土曜）
+export type RecurrencePattern =
+  // intervalWeeks 週ごとの weekdays（startDate の週から数える）
+  | { kind: 'weekly'; weekdays: number[]; intervalWeeks: number; startDate: string }
+  // 毎月 第nth weekday（nth が -1 なら最終）
+  | { kind: 'monthly-weekday'; nth: number; weekday: number }
+  // 決まった日だけ
+  | { kind: 'dates'; dates: string[] };
+
+export type Recurrence = RecurrencePattern & {
+  // 行く時刻（HH:mm、未設定なら時刻なし）
+  time?: string;
+  // 休みにした日
+  skippedDates?: string[];
+};
 
 export interface AppSettings {
   travelMode: 'driving' | 'transit' | 'walking';
+  // ゴミ箱の中身を自動で消すまでの日数（0なら自動で消さない）
+  trashRetentionDays: number;
+  // 同期サーバーのURL（空なら同期しない）と合言葉
+  syncEndpoint: string;
+  syncToken: string;
+  // 作れるカテゴリの数
+  customTabLimit: number;
+  // ホームの大きなボタンに出すお気に入りの場所（手動で並べた順）
+  favoritePlaceIds: string[];
+  favoriteSort: FavoriteSort;
+  // 音声でメモを入力したとき、録音した声も残す
+  keepVoiceRecordings: boolean;
 }
 
+// お気に入りの並べ方（手動／ナビ開始の回数が多い順）
+export type FavoriteSort = 'manual' | 'navigation';
+
 export const DEFAULT_TABS: Tab[] = [
-  { id: 'all', name: 'すべて', isCustom: false, order: 0 },
-  { id: 'frequent', name: 'よく行く', isCustom: false, order: 1 },
-  { id: 'planned', name: '今度行く', isCustom: false, order: 2 },
-  { id: 'revisit', name: 'また来る', isCustom: false, order: 3 },
-  { id: 'work', name: '仕事', isCustom: false, order: 4 },
-  { id: 'rest', name: '休憩場所', isCustom: false, order: 5 },
-  { id: 'convenience', name: 'コンビニ', isCustom: false, order: 6 },
-  { id: 'toilet', name: 'トイレ', isCustom: false, order: 7 },
-  { id: 'other', name: 'その他', isCustom: false, order: 8 },
+  { id: 'all', name: 'すべて', isCustom: false, order: 0, rules: [] },
+  { id: 'frequent', name: 'よく行く', isCustom: false, order: 1, icon: '⭐', color: 'blue' },
+  { id: 'planned', name: '今度行く', isCustom: false, order: 2, icon: '📌', color: 'green' },
+  { id: 'revisit', name: 'また来る', isCustom: false, order: 3, icon: '🔁', color: 'purple' },
+  { id: 'work', name: '仕事', isCustom: false, order: 4, icon: '💼' },
+  { id: 'rest', name: '休憩場所', isCustom: false, order: 5, icon: '☕', color: 'orange' },
+  { id: 'convenience', name: 'コンビニ', isCustom: false, order: 6, icon: '🏪', color: 'red' },
+  { id: 'toilet', name: 'トイレ', isCustom: false, order: 7, icon: '🚻', color: 'cyan' },
+  { id: 'other', name: 'その他', isCustom: false, order: 8, icon: '📍', color: 'gray' },
 ];
 
 export const DEFAULT_SETTINGS: AppSettings = {
   travelMode: 'driving',
+  trashRetentionDays: 30,
+  syncEndpoint: '',
+  syncToken: '',
+  customTabLimit: 20,
+  favoritePlaceIds: [],
+  favoriteSort: 'manual',
+  keepVoiceRecordings: false,
 };
+
+// ---- 同期 ----
+
+export type SyncRecordType = 'place' | 'tab';
+
+// サーバーへ送るまで端末に残しておく変更
+export interface OutboxEntry {
+  key: string;
+  type: SyncRecordType;
+  id: string;
+  deleted: boolean;
+  queuedAt: string;
+}
+
+// サーバーから受け取った変更
+export interface RemoteChange {
+  type: SyncRecordType;
+  id: string;
+  version: number;
+  deleted?: boolean;
+  record?: Place | Tab;
+}
+
+export interface SyncState {
+  // どこまで受け取ったか（サーバーの変更番号）
+  lastSeq: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
@@ -41,6 +41,8 @@ export default defineConfig({
         // 古いService Workerのキャッシュもクリア
         skipWaiting: true,
         clientsClaim: true,
+        // 予定のお知らせをタップしたときの処理
+        importScripts: ['notification-sw.js'],
         runtimeCaching: [
           {
             // Google Maps JavaScript API - NetworkFirstで常に最新を優先